@@ -22,6 +22,7 @@ Package.onUse(function(api) {
   api.use('mrt:later@1.6.1', ['server','client']);
   api.use('mongo', ['server','client']);
   api.use('check', ['server','client']);
+  api.use('ejson', ['server','client']);
   api.use('ecmascript', ['server','client']);
   
   // Export platform-specific entry points
@@ -23,12 +23,19 @@ export type {
   JobId,
   JobType,
   JobStatus,
+  JobWorkClaiming,
+  JobMisfirePolicy,
   JobLogLevel,
   JobDocument,
   JobLogEntry,
+  JobLogPageEntry,
   JobProgress,
   JobRetryOptions,
+  JobBackoffFunction,
+  JobFailureClassification,
   JobRepeatOptions,
+  JobScheduleSpec,
+  JobScheduleInfo,
   JobSaveOptions,
   JobDoneOptions,
   JobFailOptions,
@@ -36,8 +43,27 @@ export type {
   JobRestartOptions,
   JobQueueOptions,
   GetWorkOptions,
+  GetJobLogOptions,
+  JobHeartbeat,
+  JobStatsOptions,
+  JobTypeStats,
+  JobStats,
+  JobRateLimit,
+  JobRetentionPeriods,
+  JobRetentionPolicy,
+  JobDeadLetter,
+  JobDeadLetterOptions,
+  JobRedriveOptions,
+  JobLogLimitOptions,
+  JobTraceContext,
+  JobSpan,
+  JobTracer,
+  JobEventName,
+  JobEvent,
   Callback,
   WorkerFunction,
+  AsyncWorkerFunction,
+  WorkWatcher,
   AllowDenyRules
 } from './types';
 
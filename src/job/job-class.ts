@@ -23,10 +23,20 @@ import type {
   JobRerunOptions,
   GetWorkOptions,
   GetJobOptions,
+  GetJobLogOptions,
+  JobHeartbeat,
+  JobStatsOptions,
+  JobStats,
+  JobLogPageEntry,
   ReadyJobsOptions,
   Callback,
   DDPApply,
-  LaterJSSchedule
+  WorkWatcher,
+  LaterJSSchedule,
+  CronSchedule,
+  JobSpan,
+  JobTracer,
+  JobTraceContext
 } from '../types';
 import { JobQueue } from './job-queue';
 import {
@@ -38,8 +48,14 @@ import {
   setImmediate
 } from '../utils/callback-helpers';
 import { 
-  isInteger
+  isInteger,
+  isNonEmptyString,
+  validTimeout,
+  MAX_TIMEOUT
 } from '../utils/validators';
+import { isValidCron } from '../utils/cron';
+import { isValidTimezone } from '../utils/timezone';
+import { meteorWorkWatcher, ddpWorkWatcher } from '../utils/work-watchers';
 
 /**
  * DDP method invocation helper
@@ -92,7 +108,12 @@ export class Job {
     critical: -15
   } as const;
 
-  static readonly jobRetryBackoffMethods = ['constant', 'exponential'] as const;
+  static readonly jobRetryBackoffMethods = [
+    'constant', 'linear', 'exponential',
+    'exponential-jitter', 'decorrelated-jitter'
+  ] as const;
+
+  static readonly jobMisfirePolicies = ['skip', 'runOnce', 'runAll'] as const;
 
   static readonly jobStatuses = [
     'waiting', 'paused', 'ready', 'running',
@@ -111,7 +132,7 @@ export class Job {
     'startJobServer', 'shutdownJobServer',
     'jobRemove', 'jobPause', 'jobResume', 'jobReady',
     'jobCancel', 'jobRestart', 'jobSave', 'jobRerun', 'getWork',
-    'getJob', 'jobLog', 'jobProgress', 'jobDone', 'jobFail'
+    'getJob', 'getJobLog', 'stats', 'jobLog', 'jobProgress', 'jobHeartbeat', 'jobDone', 'jobFail'
   ] as const;
 
   static readonly ddpPermissionLevels = ['admin', 'manager', 'creator', 'worker'] as const;
@@ -131,8 +152,11 @@ export class Job {
     'jobRerun': ['jobRerun', 'admin', 'creator'],
     'getWork': ['getWork', 'admin', 'worker'],
     'getJob': ['getJob', 'admin', 'worker'],
+    'getJobLog': ['getJobLog', 'admin', 'worker'],
+    'stats': ['stats', 'admin', 'manager'],
     'jobLog': ['jobLog', 'admin', 'worker'],
     'jobProgress': ['jobProgress', 'admin', 'worker'],
+    'jobHeartbeat': ['jobHeartbeat', 'admin', 'worker'],
     'jobDone': ['jobDone', 'admin', 'worker'],
     'jobFail': ['jobFail', 'admin', 'worker']
   } as const;
@@ -140,10 +164,20 @@ export class Job {
   // Static DDP apply function
   static _ddp_apply: DDPApply | Record<string, DDPApply> | undefined = undefined;
 
+  static _tracer: JobTracer | undefined = undefined;
+
+  // Work watchers by collection name, '*' for the default
+  static _work_watchers: Record<string, WorkWatcher> = {};
+
   // Instance properties
   root!: string;
   private _root!: string | { root?: string };
   private _doc!: JobDocument;
+  // Set once done() or fail() is called, so JobQueue doesn't finish the job again
+  _finished = false;
+  // Context of the JobQueue span processing this job, which done() and fail() continue
+  _processContext?: JobTraceContext;
+  private _abortController?: AbortController;
 
   constructor(rootVal: string | { root?: string }, type: JobType | JobDocument, data?: Record<string, any>) {
     // Support calling without new
@@ -223,6 +257,15 @@ export class Job {
     }
   }
 
+  _spanAttributes(): Record<string, any> {
+    return {
+      'job.root': this.root,
+      'job.type': this._doc.type,
+      'job.id': this._doc._id,
+      'job.runId': this._doc.runId
+    };
+  }
+
   // Property getters
   get doc(): JobDocument {
     return this._doc;
@@ -236,6 +279,13 @@ export class Job {
     return this._doc.data;
   }
 
+  // Aborted when the job stops running under this run while a worker holds it,
+  // e.g. because it was cancelled. See onCancel()
+  get signal(): AbortSignal {
+    this._abortController = this._abortController ?? new AbortController();
+    return this._abortController.signal;
+  }
+
   // Static class methods
 
   static _setDDPApply(apply: DDPApply, collectionName?: string): void {
@@ -256,6 +306,55 @@ export class Job {
     }
   }
 
+  static _setWorkWatcher(watcher: WorkWatcher, collectionName?: string): void {
+    this._work_watchers[collectionName ?? '*'] = watcher;
+  }
+
+  // Starts watching for ready work, returning a stop function, or null if the connection can't
+  static _watchWork(root: string, types: JobType[], onWork: (type: JobType) => void): (() => void) | null {
+    const watcher = this._work_watchers[root] ?? this._work_watchers['*'];
+    return watcher ? watcher(root, types, onWork) : null;
+  }
+
+  static setTracer(tracer: JobTracer | null): void {
+    if (tracer && typeof tracer.startSpan !== 'function') {
+      throw new Error('Bad tracer in Job.setTracer(), must have a startSpan() method');
+    }
+    this._tracer = tracer ?? undefined;
+  }
+
+  // Tracing must never break job handling, so tracer errors only produce a warning
+  static _startSpan(
+    name: string,
+    parent?: JobTraceContext,
+    attributes: Record<string, any> = {}
+  ): JobSpan | undefined {
+    if (!this._tracer) {
+      return undefined;
+    }
+    try {
+      return this._tracer.startSpan(name, { parent, attributes });
+    } catch (err) {
+      console.warn(`Job tracer failed to start span ${name}:`, err);
+      return undefined;
+    }
+  }
+
+  static _endSpan(span: JobSpan | undefined, error?: any): void {
+    try {
+      span?.end(error ?? undefined);
+    } catch (err) {
+      console.warn('Job tracer failed to end span:', err);
+    }
+  }
+
+  static _withSpan<T>(span: JobSpan | undefined, fn: () => T): T {
+    if (span && this._tracer?.withSpan) {
+      return this._tracer.withSpan(span, fn);
+    }
+    return fn();
+  }
+
   static setDDP(
     ddp: any = null,
     collectionNames: string | string[] | null = null
@@ -280,6 +379,10 @@ export class Job {
             return Meteor.apply(name, params, callback as any);
           };
           this._setDDPApply(meteorApply, collName);
+          // The server registers its own watcher for local collections
+          if (Meteor.isClient) {
+            this._setWorkWatcher(meteorWorkWatcher((Meteor as any).connection), collName);
+          }
         } else {
           throw new Error('Bad ddp object in Job.setDDP()');
         }
@@ -289,6 +392,7 @@ export class Job {
           return ddp.apply(name, params, callback);
         };
         this._setDDPApply(ddpApply, collName);
+        this._setWorkWatcher(meteorWorkWatcher(ddp), collName);
       } else {
         // This is the npm DDP package
         // Note: Fiber support removed in v2.0 - use async/await
@@ -296,6 +400,7 @@ export class Job {
           return ddp.call(name, params, callback);
         };
         this._setDDPApply(ddpCall, collName);
+        this._setWorkWatcher(ddpWorkWatcher(ddp), collName);
       }
     }
   }
@@ -317,11 +422,17 @@ export class Job {
       }
     }
 
-    return methodCall(
+    const span = Job._startSpan('job.getWork', undefined, { 'job.root': root, 'job.types': typeArray.join(',') });
+    const callback = span && cb ? (err?: Error | null, res?: any) => {
+      Job._endSpan(span, err);
+      cb!(err, res);
+    } : cb;
+
+    const result = methodCall(
       root,
       'getWork',
       [typeArray, opts],
-      cb,
+      callback,
       (res: JobDocument[]) => {
         const jobs = res.map(doc => new Job(root, doc));
         if (opts.maxJobs !== undefined) {
@@ -331,6 +442,10 @@ export class Job {
         }
       }
     );
+    if (span && !cb) {
+      result.then(() => Job._endSpan(span), (err) => Job._endSpan(span, err));
+    }
+    return result;
   }
 
   static processJobs = JobQueue;
@@ -360,6 +475,29 @@ export class Job {
     );
   }
 
+  static async getJobLog(
+    root: string,
+    id: JobId,
+    options?: GetJobLogOptions | Callback,
+    cb?: Callback
+  ): Promise<JobLogPageEntry[]> {
+    let opts: GetJobLogOptions;
+    [opts, cb] = optionsHelp<GetJobLogOptions>(options ?? {}, cb);
+
+    return methodCall(root, 'getJobLog', [id, opts], cb);
+  }
+
+  static async stats(
+    root: string,
+    options?: JobStatsOptions | Callback,
+    cb?: Callback
+  ): Promise<JobStats> {
+    let opts: JobStatsOptions;
+    [opts, cb] = optionsHelp<JobStatsOptions>(options ?? {}, cb);
+
+    return methodCall(root, 'stats', [opts], cb);
+  }
+
   static async getJobs(
     root: string,
     ids: JobId[],
@@ -411,6 +549,12 @@ export class Job {
     }
   }
 
+  // Renews the workTimeout lease of running jobs, resolving to the ids still running under their runId
+  static async heartbeatJobs(root: string, jobs: Job[], cb?: Callback): Promise<JobId[]> {
+    const runs: JobHeartbeat[] = jobs.map(j => ({ id: j._doc._id!, runId: j._doc.runId! }));
+    return methodCall(root, 'jobHeartbeat', [runs], cb);
+  }
+
   static async pauseJobs(
     root: string,
     ids: JobId[],
@@ -628,6 +772,40 @@ export class Job {
     return this;
   }
 
+  group(key: string | null = null): this {
+    if (key === null) {
+      delete this._doc.group;
+    } else if (typeof key === 'string' && key.length > 0) {
+      this._doc.group = key;
+    } else {
+      throw new Error('group key must be a nonempty string or null');
+    }
+    return this;
+  }
+
+  logLimit(max: number | null = null): this {
+    if (max === null) {
+      delete this._doc.logLimit;
+    } else if (isInteger(max) && max >= 1) {
+      this._doc.logLimit = max;
+    } else {
+      throw new Error('logLimit must be an integer >= 1 or null');
+    }
+    return this;
+  }
+
+  // Limit in ms on how long a JobQueue worker may take, overriding its taskTimeout
+  maxRuntime(ms: number | null = null): this {
+    if (ms === null) {
+      delete this._doc.maxRuntime;
+    } else if (validTimeout(ms)) {
+      this._doc.maxRuntime = ms;
+    } else {
+      throw new Error(`maxRuntime must be an integer from 1 to ${MAX_TIMEOUT} or null`);
+    }
+    return this;
+  }
+
   priority(level: number | keyof typeof Job.jobPriorities = 0): this {
     let priority: number;
 
@@ -683,18 +861,30 @@ export class Job {
     }
 
     if (opts.backoff !== undefined) {
-      if (!Job.jobRetryBackoffMethods.includes(opts.backoff as any)) {
-        throw new Error('bad option: invalid retry backoff method');
+      // Other names must be registered on the server with jc.registerBackoff()
+      if (!isNonEmptyString(opts.backoff)) {
+        throw new Error('bad option: retry backoff method must be a nonempty string');
       }
     } else {
       opts.backoff = 'constant';
     }
 
+    if (opts.maxWait !== undefined) {
+      if (!isInteger(opts.maxWait) || opts.maxWait < 1) {
+        throw new Error('bad option: maxWait must be an integer >= 1');
+      }
+    }
+
     this._doc.retries = opts.retries;
     this._doc.repeatRetries = opts.retries;
     this._doc.retryWait = opts.wait;
     this._doc.retried = this._doc.retried ?? 0;
     this._doc.retryBackoff = opts.backoff;
+    if (opts.maxWait !== undefined) {
+      this._doc.retryMaxWait = opts.maxWait;
+    } else {
+      delete this._doc.retryMaxWait;
+    }
     this._doc.retryUntil = opts.until;
 
     return this;
@@ -711,8 +901,35 @@ export class Job {
       throw new Error('bad parameter: accepts either an integer >= 0 or an options object');
     }
 
-    if (opts.wait && opts.schedule) {
-      throw new Error('bad options: wait and schedule options are mutually exclusive');
+    if ([opts.wait, opts.schedule, opts.cron].filter(o => o).length > 1) {
+      throw new Error('bad options: wait, schedule and cron options are mutually exclusive');
+    }
+
+    if (opts.timezone !== undefined) {
+      if (!opts.cron && !opts.schedule) {
+        throw new Error('bad option: timezone requires the schedule or cron option');
+      }
+      if (!isValidTimezone(opts.timezone)) {
+        throw new Error('bad option, timezone must be a valid IANA time zone name');
+      }
+    }
+
+    if (opts.misfire !== undefined) {
+      if (!opts.cron && !opts.schedule) {
+        throw new Error('bad option: misfire requires the schedule or cron option');
+      }
+      if (!Job.jobMisfirePolicies.includes(opts.misfire)) {
+        throw new Error('bad option: invalid misfire policy');
+      }
+    }
+
+    if (opts.misfireLimit !== undefined) {
+      if (opts.misfire !== 'runAll') {
+        throw new Error('bad option: misfireLimit requires misfire: runAll');
+      }
+      if (!isInteger(opts.misfireLimit) || opts.misfireLimit < 1) {
+        throw new Error('bad option: misfireLimit must be an integer >= 1');
+      }
     }
 
     if (opts.repeats !== undefined) {
@@ -731,7 +948,7 @@ export class Job {
       opts.until = Job.foreverDate;
     }
 
-    let waitValue: number | LaterJSSchedule;
+    let waitValue: number | LaterJSSchedule | CronSchedule;
 
     if (opts.wait !== undefined) {
       if (!isInteger(opts.wait) || opts.wait < 0) {
@@ -752,12 +969,32 @@ export class Job {
         schedules: opts.schedule.schedules,
         exceptions: opts.schedule.exceptions
       };
+    } else if (opts.cron) {
+      if (!isValidCron(opts.cron)) {
+        throw new Error('bad option, cron must be a valid five field cron expression');
+      }
+      waitValue = { cron: opts.cron };
     } else {
       waitValue = 5 * 60 * 1000;
     }
 
     this._doc.repeats = opts.repeats;
     this._doc.repeatWait = waitValue;
+    if (opts.timezone !== undefined) {
+      this._doc.timezone = opts.timezone;
+    } else {
+      delete this._doc.timezone;
+    }
+    if (opts.misfire !== undefined) {
+      this._doc.misfire = opts.misfire;
+    } else {
+      delete this._doc.misfire;
+    }
+    if (opts.misfireLimit !== undefined) {
+      this._doc.misfireLimit = opts.misfireLimit;
+    } else {
+      delete this._doc.misfireLimit;
+    }
     this._doc.repeated = this._doc.repeated ?? 0;
     this._doc.repeatUntil = opts.until;
 
@@ -824,6 +1061,23 @@ export class Job {
     }
   }
 
+  // Calls fn once if the job stops running under this run while it is being worked on
+  onCancel(fn: (reason: any) => void): this {
+    const signal = this.signal;
+    if (signal.aborted) {
+      fn(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => fn(signal.reason), { once: true });
+    }
+    return this;
+  }
+
+  _abort(reason: string): void {
+    if (!this._finished && !this.signal.aborted) {
+      this._abortController!.abort(new Error(reason));
+    }
+  }
+
   progress(
     completed = 0,
     total = 1,
@@ -866,6 +1120,8 @@ export class Job {
             (err, res) => {
               if (!err && res) {
                 this._doc.progress = progress;
+              } else if (!err && res === false) {
+                this._abort('Job is no longer running');
               }
               callback(err, res);
             }
@@ -887,12 +1143,19 @@ export class Job {
     let opts: JobSaveOptions;
     [opts, cb] = optionsHelp<JobSaveOptions>(options ?? {}, cb);
 
+    // Work on this job continues the trace of the code that saved it
+    const span = Job._startSpan('job.save', undefined, { 'job.root': this.root, 'job.type': this.type });
+    if (span) {
+      this._doc.traceContext = span.context();
+    }
+
     return callbackOrPromise<JobId>(
       (callback) =>
         methodCall(this._root, 'jobSave', [this._doc, opts], (err, id) => {
           if (!err && id) {
             this._doc._id = id;
           }
+          Job._endSpan(span, err);
           callback(err, id);
         }),
       cb
@@ -941,9 +1204,15 @@ export class Job {
     if (!this._doc._id || !this._doc.runId) {
       throw new Error("Can't call .done() on an unsaved or non-running job");
     }
+    this._finished = true;
 
+    const span = Job._startSpan('job.done', this._processContext ?? this._doc.traceContext, this._spanAttributes());
     return callbackOrPromise<boolean>(
-      (callback) => methodCall(this._root, 'jobDone', [this._doc._id, this._doc.runId, result, opts], callback),
+      (callback) =>
+        methodCall(this._root, 'jobDone', [this._doc._id, this._doc.runId, result, opts], (err, res) => {
+          Job._endSpan(span, err);
+          callback(err, res);
+        }),
       cb
     ) as Promise<boolean>;
   }
@@ -966,9 +1235,15 @@ export class Job {
     if (!this._doc._id || !this._doc.runId) {
       throw new Error("Can't call .fail() on an unsaved or non-running job");
     }
+    this._finished = true;
 
+    const span = Job._startSpan('job.fail', this._processContext ?? this._doc.traceContext, this._spanAttributes());
     return callbackOrPromise<boolean>(
-      (callback) => methodCall(this._root, 'jobFail', [this._doc._id, this._doc.runId, result, opts], callback),
+      (callback) =>
+        methodCall(this._root, 'jobFail', [this._doc._id, this._doc.runId, result, opts], (err, res) => {
+          Job._endSpan(span, err ?? result);
+          callback(err, res);
+        }),
       cb
     ) as Promise<boolean>;
   }
@@ -10,6 +10,7 @@ import type {
   JobQueueOptions, 
   JobQueueShutdownOptions, 
   WorkerFunction, 
+  AsyncWorkerFunction,
   Callback 
 } from '../types';
 import { Job } from './job-class';
@@ -18,13 +19,17 @@ import {
   isBoolean,
   isFunction,
   isNonEmptyString,
-  isNonEmptyStringOrArrayOfNonEmptyStrings
+  isNonEmptyStringOrArrayOfNonEmptyStrings,
+  validTimeout,
+  MAX_TIMEOUT
 } from '../utils/validators';
 import {
   optionsHelp,
   setImmediate,
   setInterval,
-  clearInterval
+  clearInterval,
+  setTimeout,
+  clearTimeout
 } from '../utils/callback-helpers';
 
 /**
@@ -33,13 +38,16 @@ import {
 export class JobQueue {
   root!: string;
   type!: JobType | JobType[];
-  worker!: WorkerFunction;
+  worker!: WorkerFunction | AsyncWorkerFunction;
   errorCallback!: (error: Error) => void;
   pollInterval!: number;
   concurrency!: number;
   payload!: number;
   prefetch!: number;
   workTimeout?: number;
+  heartbeatInterval!: number;
+  taskTimeout?: number;
+  notify!: boolean;
   callbackStrict?: boolean;
   
   private _workers: Record<string, Job | Job[]> = {};
@@ -49,13 +57,18 @@ export class JobQueue {
   private _stoppingTasks?: Callback;
   private _interval: any = null;
   private _getWorkOutstanding = false;
+  private _stopWatching: (() => void) | null = null;
+  // A work notification that no getWork() call has acted on yet
+  private _workPending = false;
+  private _heartbeat: any = null;
+  private _heartbeatOutstanding = false;
   paused = true;
 
   constructor(
     root: string,
     type: JobType | JobType[],
-    options: JobQueueOptions | WorkerFunction,
-    worker?: WorkerFunction
+    options: JobQueueOptions | WorkerFunction | AsyncWorkerFunction,
+    worker?: WorkerFunction | AsyncWorkerFunction
   ) {
     // Support both new JobQueue() and JobQueue() without new
     if (!(this instanceof JobQueue)) {
@@ -64,15 +77,15 @@ export class JobQueue {
 
     // Handle options parameter
     let opts: JobQueueOptions;
-    let workerFn: WorkerFunction;
+    let workerFn: WorkerFunction | AsyncWorkerFunction;
     
     if (typeof options === 'function') {
       workerFn = options;
       opts = {};
     } else {
-      const result = optionsHelp<JobQueueOptions>(options, worker!);
+      const result = optionsHelp<JobQueueOptions>(options, worker! as Callback);
       opts = result[0];
-      workerFn = result[1] as WorkerFunction;
+      workerFn = result[1] as WorkerFunction | AsyncWorkerFunction;
     }
     
     this.worker = workerFn;
@@ -133,6 +146,28 @@ export class JobQueue {
       throw new Error('JobQueue: Invalid workTimeout, must be a positive integer');
     }
 
+    // Renew leases well before they expire, so one slow or failed heartbeat isn't fatal
+    if (opts.heartbeatInterval === false) {
+      this.heartbeatInterval = Job.forever;
+    } else if (opts.heartbeatInterval === undefined) {
+      this.heartbeatInterval = this.workTimeout ? Math.max(1, Math.floor(this.workTimeout / 3)) : Job.forever;
+    } else {
+      this.heartbeatInterval = opts.heartbeatInterval;
+    }
+    if (!isInteger(this.heartbeatInterval) || this.heartbeatInterval < 1) {
+      throw new Error('JobQueue: Invalid heartbeatInterval, must be a positive integer or false');
+    }
+
+    this.taskTimeout = opts.taskTimeout;
+    if (this.taskTimeout !== undefined && !validTimeout(this.taskTimeout)) {
+      throw new Error(`JobQueue: Invalid taskTimeout, must be an integer from 1 to ${MAX_TIMEOUT}`);
+    }
+
+    this.notify = opts.notify ?? false;
+    if (!isBoolean(this.notify)) {
+      throw new Error('JobQueue: Invalid notify, must be a boolean');
+    }
+
     this.callbackStrict = opts.callbackStrict;
     if (this.callbackStrict !== undefined && !isBoolean(this.callbackStrict)) {
       throw new Error('JobQueue: Invalid callbackStrict, must be a boolean');
@@ -149,7 +184,9 @@ export class JobQueue {
 
     const numJobsToGet = this.prefetch + this.payload * (this.concurrency - this.running()) - this.length();
     
+    // When full, a pending notification waits for next() to free a slot
     if (numJobsToGet > 0) {
+      this._workPending = false;
       this._getWorkOutstanding = true;
       const options: any = { maxJobs: numJobsToGet };
       if (this.workTimeout !== undefined) {
@@ -174,6 +211,10 @@ export class JobQueue {
           
           if (this._stoppingGetWork) {
             this._stoppingGetWork();
+          } else if (this._workPending || (this.notify && jobs.length >= numJobsToGet)) {
+            // Notified during this call, or a full batch may have left ready jobs behind,
+            // which the server won't signal again
+            setImmediate(this._getWork.bind(this));
           }
         } else {
           this.errorCallback(new Error('Nonarray response from server from getWork()'));
@@ -219,25 +260,187 @@ export class JobQueue {
       }
       this._workers[taskId] = job;
 
+      this._startHeartbeat();
+
       const next = () => {
         delete this._workers[taskId];
+        if (this.running() === 0) {
+          this._stopHeartbeat();
+        }
         
         if (this._stoppingTasks && this.running() === 0 && this.length() === 0) {
           this._stoppingTasks();
         } else {
           setImmediate(this._process.bind(this));
+          // Also picks up work notified while the queue was full
           setImmediate(this._getWork.bind(this));
         }
       };
 
-      const cb = this._only_once(next);
-      this.worker(job, cb);
+      // Jobs in a payload may come from different traces, so only single jobs get a parent
+      const span = Job._startSpan(
+        'job.process',
+        Array.isArray(job) ? undefined : job.doc.traceContext,
+        Array.isArray(job) ? { 'job.root': this.root, 'job.count': job.length } : job._spanAttributes()
+      );
+      let released = false;
+      let timer: any = null;
+      const release = () => {
+        if (!released) {
+          released = true;
+          if (timer !== null) {
+            clearTimeout(timer);
+          }
+          Job._endSpan(span);
+          next();
+        }
+      };
+
+      const jobs: Job[] = Array.isArray(job) ? job : [job];
+      if (span) {
+        const context = span.context();
+        for (const j of jobs) {
+          j._processContext = context;
+        }
+      }
+      const limits = jobs.map(j => j.doc.maxRuntime ?? this.taskTimeout).filter((t): t is number => t !== undefined);
+      if (limits.length) {
+        const limit = Math.min(...limits);
+        timer = setTimeout(() => {
+          timer = null;
+          this._timeout(jobs, limit, release);
+        }, limit);
+      }
+
+      const cb = this._only_once(release);
+      const result: any = Job._withSpan(span, () => this.worker(job, cb));
+
+      if (result && typeof result.then === 'function') {
+        this._settle(Array.isArray(job) ? job : [job], result, release);
+      }
+    }
+  }
+
+  // The worker ran too long: stop it if it listens, free the slot and fail its jobs
+  private _timeout(jobs: Job[], limit: number, release: () => void): void {
+    const error = `Worker exceeded its time limit of ${limit}ms`;
+    const unfinished = jobs.filter(j => !j._finished && !j.signal.aborted);
+    for (const j of unfinished) {
+      j._abort(error);
+    }
+    release();
+
+    // Failing the jobs must not hold the slot, even when the server is slow to answer
+    (async () => {
+      for (const j of unfinished) {
+        // A cancel handler may have finished the job itself
+        if (j._finished) {
+          continue;
+        }
+        try {
+          await j.fail(error);
+        } catch (err) {
+          this.errorCallback(new Error(`Error failing timed out job: ${err}`));
+        }
+      }
+    })();
+  }
+
+  /**
+   * Finishes the jobs of a worker that returned a promise. Workers that don't
+   * take a callback get done()/fail() called for them; workers that do still
+   * release their slot through the callback, unless the promise rejects.
+   */
+  private _settle(jobs: Job[], promise: Promise<any>, release: () => void): void {
+    const promiseStyle = this.worker.length < 2;
+    const finish = async (method: 'done' | 'fail', value: any) => {
+      for (const j of jobs) {
+        if (!j._finished && !j.signal.aborted) {
+          try {
+            await j[method](value);
+          } catch (err) {
+            this.errorCallback(new Error(`Error calling job.${method}() for worker promise: ${err}`));
+          }
+        }
+      }
+      release();
+    };
+
+    promise.then(
+      (value) => {
+        if (promiseStyle) {
+          return finish('done', value);
+        }
+        return undefined;
+      },
+      (err) => finish('fail', err instanceof Error ? err.message : err)
+    );
+  }
+
+  private _startHeartbeat(): void {
+    if (this._heartbeat === null && this.heartbeatInterval < Job.forever) {
+      this._heartbeat = setInterval(this._sendHeartbeat.bind(this), this.heartbeatInterval);
+    }
+  }
+
+  private _stopHeartbeat(): void {
+    if (this._heartbeat !== null) {
+      clearInterval(this._heartbeat);
+      this._heartbeat = null;
+    }
+  }
+
+  // Keeps the jobs in _workers from being failed as zombies while their workers run,
+  // and tells workers when one of their jobs was cancelled, see job.signal
+  private async _sendHeartbeat(): Promise<void> {
+    if (this._heartbeatOutstanding) {
+      return;
+    }
+    const jobs = Object.values(this._workers).flat();
+    if (jobs.length === 0) {
+      return;
+    }
+
+    this._heartbeatOutstanding = true;
+    try {
+      const running = new Set((await Job.heartbeatJobs(this.root, jobs)).map(String));
+      for (const j of jobs) {
+        if (!running.has(String(j.doc._id))) {
+          j._abort('Job is no longer running');
+        }
+      }
+    } catch (err) {
+      this.errorCallback(new Error(`Received error from jobHeartbeat(): ${err}`));
+    } finally {
+      this._heartbeatOutstanding = false;
+    }
+  }
+
+  private _startWatching(): void {
+    if (this.notify && this._stopWatching === null) {
+      const types = typeof this.type === 'string' ? [this.type] : this.type;
+      this._stopWatching = Job._watchWork(this.root, types, () => {
+        this._workPending = true;
+        this.trigger();
+      });
+      if (this._stopWatching === null) {
+        this.errorCallback(new Error('JobQueue: notify is not supported by this DDP connection, polling instead'));
+        this.notify = false;
+      }
+    }
+  }
+
+  private _stopWatchingWork(): void {
+    if (this._stopWatching !== null) {
+      this._stopWatching();
+      this._stopWatching = null;
     }
   }
 
   private _stopGetWork(callback: Callback): void {
     clearInterval(this._interval);
     this._interval = null;
+    this._stopWatchingWork();
     
     if (this._getWorkOutstanding) {
       this._stoppingGetWork = callback;
@@ -284,6 +487,7 @@ export class JobQueue {
 
   private _hard(callback: Callback): void {
     this.paused = true;
+    this._stopHeartbeat();
     this._stopGetWork(async () => {
       const tasks: any[] = [...this._tasks];
       this._tasks = [];
@@ -342,6 +546,7 @@ export class JobQueue {
       clearInterval(this._interval);
       this._interval = null;
     }
+    this._stopWatchingWork();
     
     this.paused = true;
     return this;
@@ -358,6 +563,7 @@ export class JobQueue {
     if (this.pollInterval < Job.forever) {
       this._interval = setInterval(this._getWork.bind(this), this.pollInterval);
     }
+    this._startWatching();
     
     for (let w = 1; w <= this.concurrency; w++) {
       setImmediate(this._process.bind(this));
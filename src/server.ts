@@ -8,11 +8,32 @@
 import { EventEmitter } from 'events';
 import { JobCollectionBase } from './shared';
 import { Job } from './job/job-class';
-import type { AllowDenyRules, EventMessage, Callback } from './types';
-import { validIntGTEOne } from './utils/validators';
+import type {
+  AllowDenyRules,
+  EventMessage,
+  Callback,
+  JobId,
+  JobDocument,
+  JobType,
+  JobRateLimit,
+  JobBackoffFunction,
+  JobDeadLetterOptions,
+  JobRedriveOptions,
+  JobRetentionPolicy,
+  JobLogLimitOptions,
+  JobEventName,
+  JobEvent,
+  JobScheduleSpec,
+  JobScheduleInfo
+} from './types';
+import { isNonEmptyString, validIntGTEOne } from './utils/validators';
+import { Histogram, formatLabels, metricHeader } from './utils/metrics';
 
 declare const share: any;
 
+// Most expired jobs per retention rule that one promote tick looks up one by one
+const RETENTION_BATCH = 1000;
+
 /**
  * Helper to format user identity for logging
  */
@@ -35,6 +56,17 @@ class JobCollectionServer extends JobCollectionBase {
   denys: Record<string, any[]> = {};
   isSimulation = false;
   interval?: any;
+  private _promoteInterval = 15 * 1000;
+  private _retention?: JobRetentionPolicy;
+  private _metrics = {
+    claimed: {} as Record<JobType, number>,
+    completed: {} as Record<JobType, number>,
+    failed: {} as Record<JobType, number>,
+    retried: {} as Record<JobType, number>,
+    zombies: 0,
+    getWorkDuration: new Histogram(),
+    runDuration: {} as Record<JobType, Histogram>
+  };
   private _localServerMethods?: Record<string, Function>;
   private _ddp_apply?: Function;
 
@@ -60,6 +92,24 @@ class JobCollectionServer extends JobCollectionBase {
 
     this.stopped = true;
 
+    // Feed the counters reported by metrics()
+    const count = (counter: Record<JobType, number>) => (e: JobEvent) => {
+      counter[e.type] = (counter[e.type] ?? 0) + 1;
+    };
+    const observeRun = (e: JobEvent) => {
+      if (e.runTime !== undefined) {
+        this._metrics.runDuration[e.type] ??= new Histogram();
+        this._metrics.runDuration[e.type].observe(e.runTime / 1000);
+      }
+    };
+    this.events.on('job:running', count(this._metrics.claimed));
+    this.events.on('job:completed', count(this._metrics.completed));
+    this.events.on('job:failed', count(this._metrics.failed));
+    this.events.on('job:retrying', count(this._metrics.retried));
+    for (const event of ['job:completed', 'job:failed', 'job:retrying']) {
+      this.events.on(event, observeRun);
+    }
+
     // Set up server-side _toLog
     this._toLog = this._toLogServer.bind(this);
 
@@ -94,6 +144,22 @@ class JobCollectionServer extends JobCollectionBase {
       this.createIndexAsync({ priority: 1, retryUntil: 1, after: 1 }).catch((err: Error) => {
         console.warn('Failed to create index:', err);
       });
+      this.createIndexAsync({ group: 1, status: 1 }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+      this.createIndexAsync({ uniqueKey: 1, status: 1 }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+      this.createIndexAsync({ liveUniqueKey: 1 }, { unique: true, sparse: true }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+      this.createIndexAsync({ scheduleName: 1, status: 1 }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+
+      if (this.logCollection) {
+        this._ensureLogCollection();
+      }
 
       this.isSimulation = false;
       const localMethods = this._generateMethods();
@@ -122,15 +188,60 @@ class JobCollectionServer extends JobCollectionBase {
       };
 
       Job._setDDPApply(this._ddp_apply as any, root);
+      Job._setWorkWatcher((_root, types, onWork) => {
+        const handle = this._observeReadyWork(types, onWork);
+        return () => {
+          handle.then(h => h.stop(), () => undefined);
+        };
+      }, root);
 
       const meteorMethods: Record<string, (...args: any[]) => any> = {};
       for (const [key, value] of Object.entries(localMethods)) {
         meteorMethods[key] = value as any;
       }
       Meteor.methods(meteorMethods);
+
+      // Lets JobQueues with `notify` call getWork() only when there is work
+      const permitted = this._permitted.bind(this);
+      const observeReadyWork = this._observeReadyWork.bind(this);
+      Meteor.publish(`${root}_workAvailable`, async function(this: Subscription, types: JobType[]) {
+        check(types, [String]);
+        if (this.connection && !permitted('getWork', this.userId, [types])) {
+          this.error(new Meteor.Error(403, 'Subscription not authorized'));
+          return;
+        }
+        // Jobs already ready only need one signal per type
+        const signals: Record<JobType, number> = {};
+        let initializing = true;
+        const handle = await observeReadyWork(types, (type) => {
+          if (initializing) {
+            signals[type] = 1;
+          } else if (signals[type]) {
+            signals[type]++;
+            this.changed(`${root}.workAvailable`, type, { signal: signals[type] });
+          } else {
+            signals[type] = 1;
+            this.added(`${root}.workAvailable`, type, { signal: 1 });
+          }
+        });
+        initializing = false;
+        for (const type of Object.keys(signals)) {
+          this.added(`${root}.workAvailable`, type, { signal: 1 });
+        }
+        this.onStop(() => handle.stop());
+        this.ready();
+      });
     }
   }
 
+  // Calls onWork(type) for each ready job of the types, now and as more become ready
+  async _observeReadyWork(types: JobType[], onWork: (type: JobType) => void): Promise<Meteor.LiveQueryHandle> {
+    const cursor: any = this.find({ type: { $in: types }, status: 'ready' }, { fields: { type: 1 } });
+    return cursor.observeChangesAsync({
+      added: (_id: JobId, fields: Partial<JobDocument>) => onWork(fields.type!)
+    });
+  }
+
   private _onError(msg: EventMessage): void {
     const user = userHelper(msg.userId, msg.connection);
     this._toLogServer(user, msg.method, `${msg.error}`);
@@ -142,6 +253,22 @@ class JobCollectionServer extends JobCollectionBase {
     this._toLogServer(user, msg.method, 'returned: ' + JSON.stringify(msg.returnVal));
   }
 
+  override _hasJobListeners(event: JobEventName): boolean {
+    return this.events.listenerCount(event) > 0;
+  }
+
+  // Listener errors are reported, but never fail the job operation that emitted the event
+  override _emitJobEvent(event: JobEventName, details: Omit<JobEvent, 'event' | 'time'>): void {
+    if (!this._hasJobListeners(event)) {
+      return;
+    }
+    try {
+      this.events.emit(event, { event, time: new Date(), ...details });
+    } catch (err) {
+      console.warn(`Error in ${event} listener:`, err);
+    }
+  }
+
   private _toLogServer(userId: string, method: string, message: string): void {
     if (this.logStream && this.logStream.write) {
       this.logStream.write(`${new Date()}, ${userId}, ${method}, ${message}\n`);
@@ -179,47 +306,7 @@ class JobCollectionServer extends JobCollectionBase {
 
   _methodWrapper(method: string, func: Function): Function {
     const self = this;
-
-    const myTypeof = (val: any): string => {
-      const type = typeof val;
-      if (type === 'object' && val instanceof Array) {
-        return 'array';
-      }
-      return type;
-    };
-
-    const permitted = (userId: string | null, params: any[]): boolean => {
-      const performTest = (tests: any[]): boolean => {
-        let result = false;
-        for (const test of tests) {
-          if (result) break;
-          switch (myTypeof(test)) {
-            case 'array':
-              result = result || (userId !== null && test.includes(userId));
-              break;
-            case 'function':
-              result = result || test(userId, method, params);
-              break;
-            default:
-              result = false;
-          }
-        }
-        return result;
-      };
-
-      const performAllTests = (allTests: Record<string, any[]>): boolean => {
-        let result = false;
-        const permissions = this.ddpMethodPermissions[method as keyof typeof this.ddpMethodPermissions];
-        const permArray = Array.from(permissions as readonly string[]);
-        for (const t of permArray) {
-          if (result) break;
-          result = result || performTest(allTests[t]);
-        }
-        return result;
-      };
-
-      return !performAllTests(this.denys) && performAllTests(this.allows);
-    };
+    const permitted = (userId: string | null, params: any[]): boolean => this._permitted(method, userId, params);
 
     // Return the wrapper function that the Meteor method will actually invoke
     return function(this: any, ...params: any[]) {
@@ -244,6 +331,48 @@ class JobCollectionServer extends JobCollectionBase {
     };
   }
 
+  // Whether the allow/deny rules let userId call method with params
+  _permitted(method: string, userId: string | null, params: any[]): boolean {
+    const myTypeof = (val: any): string => {
+      const type = typeof val;
+      if (type === 'object' && val instanceof Array) {
+        return 'array';
+      }
+      return type;
+    };
+
+    const performTest = (tests: any[]): boolean => {
+      let result = false;
+      for (const test of tests) {
+        if (result) break;
+        switch (myTypeof(test)) {
+          case 'array':
+            result = result || (userId !== null && test.includes(userId));
+            break;
+          case 'function':
+            result = result || test(userId, method, params);
+            break;
+          default:
+            result = false;
+        }
+      }
+      return result;
+    };
+
+    const performAllTests = (allTests: Record<string, any[]>): boolean => {
+      let result = false;
+      const permissions = this.ddpMethodPermissions[method as keyof typeof this.ddpMethodPermissions];
+      const permArray = Array.from(permissions as readonly string[]);
+      for (const t of permArray) {
+        if (result) break;
+        result = result || performTest(allTests[t]);
+      }
+      return result;
+    };
+
+    return !performAllTests(this.denys) && performAllTests(this.allows);
+  }
+
   override setLogStream(writeStream: any = null): void {
     if (this.logStream) {
       throw new Error('logStream may only be set once per job-collection startup/shutdown cycle');
@@ -260,6 +389,338 @@ class JobCollectionServer extends JobCollectionBase {
     }
   }
 
+  // Limit how many jobs of a type getWork() hands out per period (ms), across all workers
+  override setRateLimit(type: JobType, limit: JobRateLimit | null): void {
+    if (!limit) {
+      delete this._rateLimits[type];
+      return;
+    }
+    if (!validIntGTEOne(limit.limit) || !validIntGTEOne(limit.period)) {
+      throw new Error('jc.setRateLimit: limit and period must be integers >= 1');
+    }
+    if (!this._rateLimitState) {
+      this._rateLimitState = new Mongo.Collection(`${this.root}.ratelimits`);
+      // Expire counters of windows that have closed
+      this._rateLimitState.createIndexAsync({ expires: 1 }, { expireAfterSeconds: 0 }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+    }
+    this._rateLimits[type] = { limit: limit.limit, period: limit.period };
+  }
+
+  // Limit how many jobs of a type may be running at once, across all workers
+  override setConcurrencyLimit(type: JobType, max: number | null): void {
+    if (!max) {
+      delete this._concurrencyLimits[type];
+      return;
+    }
+    if (!validIntGTEOne(max)) {
+      throw new Error('jc.setConcurrencyLimit: max must be an integer >= 1');
+    }
+    this._concurrencyLimits[type] = max;
+  }
+
+  // Set aside permanently failed jobs: flagged with `deadLetter`, and copied (or moved) to a collection if given
+  override setDeadLetter(options: JobDeadLetterOptions | null): void {
+    if (!options) {
+      delete this._deadLetterOptions;
+      return;
+    }
+    if (options.collection && typeof options.collection.insertAsync !== 'function') {
+      throw new Error('jc.setDeadLetter: collection must be a Mongo.Collection or JobCollection');
+    }
+    if (options.remove && !options.collection) {
+      throw new Error('jc.setDeadLetter: remove requires a collection');
+    }
+    this._deadLetterOptions = { collection: options.collection, remove: !!options.remove };
+  }
+
+  // Restart dead-lettered jobs (all of them if no ids are given), bringing moved jobs back first
+  override async redrive(ids?: JobId | JobId[], options: JobRedriveOptions = {}): Promise<number> {
+    const query: any = ids === undefined ? {} : { _id: { $in: Array.isArray(ids) ? ids : [ids] } };
+
+    const dlq = this._deadLetterOptions?.collection;
+    if (dlq) {
+      const deadDocs = await dlq.find({ ...query, 'deadLetter.root': this.root }, { transform: null }).fetchAsync();
+      for (const doc of deadDocs) {
+        if (!(await this.findOneAsync({ _id: doc._id }, { fields: { _id: 1 } }))) {
+          await this.insertAsync(doc);
+        }
+        await dlq.removeAsync({ _id: doc._id });
+      }
+    }
+
+    const redriveIds = (
+      await this.find(
+        { ...query, status: 'failed', deadLetter: { $exists: true } },
+        { fields: { _id: 1 }, transform: null }
+      ).fetchAsync()
+    ).map(d => d._id!);
+
+    if (!redriveIds.length) {
+      return 0;
+    }
+
+    await this.updateAsync({ _id: { $in: redriveIds } }, { $unset: { deadLetter: '' } }, { multi: true });
+    const restartOptions: any = {};
+    if (options.retries !== undefined) restartOptions.retries = options.retries;
+    if (options.until !== undefined) restartOptions.until = options.until;
+    await this._DDPMethod_jobRestart(redriveIds, restartOptions);
+    return redriveIds.length;
+  }
+
+  // Keep only the newest `max` log entries per job, moving older ones to <root>.logs if `spill` is set
+  override setLogLimit(max: number | null, options: JobLogLimitOptions = {}): void {
+    if (!max) {
+      delete this._logLimit;
+      return;
+    }
+    if (!validIntGTEOne(max)) {
+      throw new Error('jc.setLogLimit: max must be an integer >= 1');
+    }
+    this._logLimit = { max, spill: !!options.spill };
+    if (this._logLimit.spill) {
+      this._ensureLogCollection();
+    }
+  }
+
+  private _ensureLogCollection(): Mongo.Collection<any> {
+    if (!this._logs) {
+      this._logs = new Mongo.Collection(`${this.root}.logs`);
+      this._logs.createIndexAsync({ jobId: 1, time: 1 }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+    }
+    return this._logs;
+  }
+
+  // Queue metrics in Prometheus text exposition format. Job counts come from the
+  // database; the counters and histograms cover this server process since startup.
+  override async metrics(): Promise<string> {
+    const root = { root: this.root };
+    const m = this._metrics;
+    let out = '';
+
+    const counts = await this.rawCollection()
+      .aggregate([{ $group: { _id: { type: '$type', status: '$status' }, count: { $sum: 1 } } }])
+      .toArray();
+    out += metricHeader('job_collection_jobs', 'gauge', 'Number of jobs by type and status');
+    for (const c of counts) {
+      out += `job_collection_jobs${formatLabels({ ...root, type: c._id.type, status: c._id.status })} ${c.count}\n`;
+    }
+
+    const counters: Array<[string, string, Record<JobType, number>]> = [
+      ['job_collection_jobs_claimed_total', 'Jobs handed out by getWork', m.claimed],
+      ['job_collection_jobs_completed_total', 'Jobs completed', m.completed],
+      ['job_collection_jobs_failed_total', 'Jobs failed permanently', m.failed],
+      ['job_collection_jobs_retried_total', 'Job failures that will be retried', m.retried]
+    ];
+    for (const [name, help, counter] of counters) {
+      out += metricHeader(name, 'counter', help);
+      for (const [type, value] of Object.entries(counter)) {
+        out += `${name}${formatLabels({ ...root, type })} ${value}\n`;
+      }
+    }
+
+    out += metricHeader('job_collection_zombie_jobs_total', 'counter', 'Running jobs auto-failed for exceeding their workTimeout');
+    out += `job_collection_zombie_jobs_total${formatLabels(root)} ${m.zombies}\n`;
+
+    out += metricHeader('job_collection_getwork_duration_seconds', 'histogram', 'getWork call latency');
+    out += m.getWorkDuration.render('job_collection_getwork_duration_seconds', root);
+
+    out += metricHeader('job_collection_job_run_duration_seconds', 'histogram', 'Job run time from getWork to done or fail');
+    for (const [type, histogram] of Object.entries(m.runDuration)) {
+      out += histogram.render('job_collection_job_run_duration_seconds', { ...root, type });
+    }
+
+    return out;
+  }
+
+  // Connect-style request handler serving metrics(), e.g. for WebApp.handlers.use('/metrics', ...)
+  override metricsHandler(): (req: any, res: any) => void {
+    return (_req: any, res: any) => {
+      this.metrics().then(
+        (text) => {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(text);
+        },
+        (err: Error) => {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+          res.end(`${err}`);
+        }
+      );
+    };
+  }
+
+  // Remove finished jobs once they are older than the policy's period for their status (and type)
+  override setRetention(policy: JobRetentionPolicy | null): void {
+    if (!policy) {
+      delete this._retention;
+      return;
+    }
+    const validPeriods = (periods: any) =>
+      (this.jobStatusRemovable as readonly string[]).every(
+        status => periods[status] == null || validIntGTEOne(periods[status])
+      );
+    if (!validPeriods(policy) || !Object.values(policy.types ?? {}).every(validPeriods)) {
+      throw new Error('jc.setRetention: periods must be integers >= 1 (ms) or null');
+    }
+    if (!this._retention) {
+      this.createIndexAsync({ status: 1, updated: 1 }).catch((err: Error) => {
+        console.warn('Failed to create index:', err);
+      });
+    }
+    this._retention = policy;
+  }
+
+  // Register a retry backoff method that jobs can name in job.retry({ backoff })
+  override registerBackoff(name: string, fn: JobBackoffFunction): void {
+    if (!isNonEmptyString(name)) {
+      throw new Error('jc.registerBackoff: name must be a nonempty string');
+    }
+    if ((Job.jobRetryBackoffMethods as readonly string[]).includes(name)) {
+      throw new Error(`jc.registerBackoff: '${name}' is a built-in backoff method`);
+    }
+    if (typeof fn !== 'function') {
+      throw new Error('jc.registerBackoff: fn must be a function');
+    }
+    this._backoffs[name] = fn;
+  }
+
+  // Keep exactly one live instance of a named repeating job, updating it in place when its spec changes
+  override async schedule(name: string, type: JobType, data: Record<string, any>, spec: JobScheduleSpec): Promise<JobId | null> {
+    if (!isNonEmptyString(name)) {
+      throw new Error('jc.schedule: name must be a nonempty string');
+    }
+
+    const { priority, retry, ...repeatOptions } = spec;
+    const job = new Job(this.root, type, data).repeat(repeatOptions);
+    if (priority !== undefined) {
+      job.priority(priority);
+    }
+    if (retry !== undefined) {
+      // Job.retry() modifies its options object
+      job.retry(typeof retry === 'object' ? { ...retry } : retry);
+    }
+    const doc = job.doc;
+    doc.scheduleName = name;
+
+    const [live, ...extras] = await this.find(
+      {
+        scheduleName: name,
+        status: { $in: this.jobStatusCancellable as any }
+      },
+      { sort: { created: 1 }, transform: null }
+    ).fetchAsync();
+
+    // Duplicates can only come from concurrent boots or manual saves
+    if (extras.length) {
+      await this._DDPMethod_jobCancel(extras.map(d => d._id!), {});
+    }
+
+    if (!live) {
+      return (await this._DDPMethod_jobSave(doc, { uniqueKey: `schedule:${name}` })) || null;
+    }
+
+    // Fields that describe the schedule, rather than the state of the current instance
+    const fields = [
+      'type', 'data', 'priority', 'repeatWait', 'repeatUntil', 'timezone', 'misfire',
+      'misfireLimit', 'retryWait', 'retryBackoff', 'retryMaxWait', 'retryUntil'
+    ] as const;
+    const changed = fields.filter(field => !EJSON.equals(live[field] as any, doc[field] as any));
+
+    // repeatRetries is only filled in by the first rerun
+    const repeatRetries = (d: JobDocument) => d.repeatRetries ?? d.retries + d.retried;
+    const retriesChanged = repeatRetries(live) !== repeatRetries(doc);
+
+    // Each rerun moves one from repeats to repeated, so their sum is the spec's repeats
+    const totalRepeats = Math.min(live.repeats + live.repeated, this.forever);
+    const repeatsChanged = totalRepeats !== doc.repeats;
+
+    if (!changed.length && !retriesChanged && !repeatsChanged) {
+      return live._id!;
+    }
+
+    const time = new Date();
+    const mods: any = { $set: { updated: time } };
+    for (const field of changed) {
+      if (doc[field] !== undefined) {
+        mods.$set[field] = doc[field];
+      } else {
+        mods.$unset = { ...mods.$unset, [field]: '' };
+      }
+    }
+    if (retriesChanged) {
+      mods.$set.repeatRetries = repeatRetries(doc);
+    }
+    if (repeatsChanged) {
+      // Runs already made count against the new total
+      mods.$set.repeats = Math.max(doc.repeats - live.repeated, 0);
+    }
+
+    // A running instance keeps its current run; the new schedule applies from its rerun
+    const reschedule = changed.length > 0 && live.status !== 'running' && typeof doc.repeatWait !== 'number';
+    if (reschedule) {
+      doc.after = time;
+      if (!this._scheduleFirstRun(doc)) {
+        return null;
+      }
+      mods.$set.after = doc.after;
+      mods.$set['_private.scheduledAt'] = doc.after;
+      if (live.status === 'ready') {
+        mods.$set.status = 'waiting';
+      }
+    }
+
+    const logObj = this._logMessage.resubmitted();
+    if (logObj) {
+      mods.$push = { log: this._logPush(logObj) };
+    }
+
+    const num = await this._updateWithLog({ _id: live._id, status: live.status }, mods);
+    if (num && reschedule && live.status !== 'paused') {
+      await this._DDPMethod_jobReady(live._id);
+    }
+    return num ? live._id! : null;
+  }
+
+  // Cancel the live instance of a named schedule
+  override async unschedule(name: string): Promise<boolean> {
+    const live = await this.find(
+      {
+        scheduleName: name,
+        status: { $in: this.jobStatusCancellable as any }
+      },
+      { fields: { _id: 1 }, transform: null }
+    ).fetchAsync();
+
+    if (!live.length) {
+      return false;
+    }
+    return this._DDPMethod_jobCancel(live.map(d => d._id!), {});
+  }
+
+  override async listSchedules(): Promise<JobScheduleInfo[]> {
+    const live = await this.find(
+      {
+        scheduleName: { $exists: true },
+        status: { $in: this.jobStatusCancellable as any }
+      },
+      { sort: { scheduleName: 1 }, transform: null }
+    ).fetchAsync();
+
+    return live.map(d => ({
+      name: d.scheduleName!,
+      jobId: d._id!,
+      type: d.type,
+      data: d.data,
+      status: d.status,
+      repeatWait: d.repeatWait,
+      timezone: d.timezone,
+      after: d.after
+    }));
+  }
+
   // Register application allow rules
   setJobAllow(allowOptions: AllowDenyRules): void {
     for (const [type, func] of Object.entries(allowOptions)) {
@@ -282,11 +743,15 @@ class JobCollectionServer extends JobCollectionBase {
   // Hook function to sanitize documents before validating them in getWork() and getJob()
   declare scrubJobDoc?: (job: any) => any;
 
+  // Hook function deciding in jobFail() whether a failure is retried, fatal, or retried after a delay
+  declare classifyFailure?: (err: any, doc: any) => any;
+
   override promote(milliseconds = 15 * 1000): void {
     if (typeof milliseconds === 'number' && milliseconds > 0) {
       if (this.interval) {
         Meteor.clearInterval(this.interval);
       }
+      this._promoteInterval = milliseconds;
       this._promote_jobs();
       this.interval = Meteor.setInterval(this._promote_jobs.bind(this), milliseconds);
     } else {
@@ -309,12 +774,77 @@ class JobCollectionServer extends JobCollectionBase {
       const jobInstance = new Job(this.root, job);
       await jobInstance.fail('Failed for exceeding worker set workTimeout');
     }
+    this._metrics.zombies += zombieJobs.length;
+
+    await this._skipMisfires();
+    await this._applyRetention();
 
     // Change jobs from waiting to ready when their time has come
     // and dependencies have been satisfied
     await this.readyJobs();
   }
 
+  private async _applyRetention(): Promise<void> {
+    if (!this._retention) {
+      return;
+    }
+
+    const time = Date.now();
+    const { types = {}, ...defaults } = this._retention;
+    for (const status of this.jobStatusRemovable) {
+      const rules: Array<[any, number | null | undefined]> = [
+        [{ type: { $nin: Object.keys(types) } }, defaults[status]]
+      ];
+      for (const [type, periods] of Object.entries(types)) {
+        rules.push([{ type }, periods[status] !== undefined ? periods[status] : defaults[status]]);
+      }
+
+      for (const [query, period] of rules) {
+        if (!period) {
+          continue;
+        }
+        try {
+          // Anything past the batch is removed on later ticks
+          await this._removeJobs({ ...query, status, updated: { $lt: new Date(time - period) } }, RETENTION_BATCH);
+        } catch (err) {
+          console.warn('Failed to remove expired jobs:', err);
+        }
+      }
+    }
+  }
+
+  // Moves scheduled jobs with misfire: 'skip' that are overdue by more than a promote
+  // interval (i.e. missed while no job server was promoting) to their next scheduled time
+  private async _skipMisfires(): Promise<void> {
+    const time = new Date();
+    const missedJobs = await this.find(
+      {
+        status: 'waiting',
+        misfire: 'skip',
+        // Jobs still waiting on dependencies haven't missed a run
+        depends: { $size: 0 },
+        after: { $lt: new Date(time.valueOf() - this._promoteInterval) }
+      },
+      { fields: { log: 0 }, transform: null }
+    ).fetchAsync();
+
+    for (const doc of missedJobs) {
+      const next = this._nextScheduledTime(doc, time);
+      // With no later time, let the missed run happen rather than dropping the job
+      if (!next || next > doc.repeatUntil) {
+        continue;
+      }
+      const mods: any = {
+        $set: { after: next, '_private.scheduledAt': next, updated: time }
+      };
+      const logObj = this._logMessage.misfired(doc.after);
+      if (logObj) {
+        mods.$push = { log: this._logPush(logObj) };
+      }
+      await this._updateWithLog({ _id: doc._id, status: 'waiting', after: doc.after }, mods);
+    }
+  }
+
   // Override DDP methods to handle server-specific logic
 
   override async _DDPMethod_startJobServer(options: any = {}): Promise<boolean> {
@@ -379,7 +909,12 @@ class JobCollectionServer extends JobCollectionBase {
       return [];
     }
 
-    return super._DDPMethod_getWork(type, options);
+    const start = Date.now();
+    try {
+      return await super._DDPMethod_getWork(type, options);
+    } finally {
+      this._metrics.getWorkDuration.observe((Date.now() - start) / 1000);
+    }
   }
 
   override async _DDPMethod_jobReady(ids: any = [], options: any = {}): Promise<boolean> {
@@ -11,11 +11,31 @@ import type {
   JobType,
   JobDocument,
   JobLogEntry,
+  JobLogPageEntry,
   JobLogLevel,
   JobStatus,
+  JobWorkClaiming,
+  JobRateLimit,
+  JobDeadLetterOptions,
+  JobRedriveOptions,
+  JobRetentionPolicy,
+  JobLogLimitOptions,
+  JobRetryBackoffMethod,
+  JobBackoffFunction,
+  JobFailureClassification,
+  JobScheduleSpec,
+  JobScheduleInfo,
   LaterJSSchedule,
+  CronSchedule,
   GetWorkOptions,
   GetJobOptions,
+  GetJobLogOptions,
+  JobHeartbeat,
+  JobStatsOptions,
+  JobTypeStats,
+  JobStats,
+  JobEventName,
+  JobEvent,
   ReadyJobsOptions
 } from './types';
 import {
@@ -26,9 +46,18 @@ import {
   validIntGTEOne,
   validStatus,
   validLogLevel,
+  validLogCursor,
   validRetryBackoff,
+  validCronExpression,
+  validTimezone,
+  validTimeout,
+  validMisfirePolicy,
   validId as isValidId
 } from './utils/validators';
+import { isCronSchedule, nextCronTime } from './utils/cron';
+import { toWallTime, fromWallTime } from './utils/timezone';
+import { hashString } from './utils/hash';
+import { retryBackoffWait } from './utils/backoff';
 
 // Match pattern helpers
 function validLog(): any {
@@ -56,6 +85,12 @@ function validLaterJSObj(): any {
   };
 }
 
+function validCronObj(): any {
+  return {
+    cron: Match.Where(validCronExpression)
+  };
+}
+
 function validJobDoc(): any {
   return {
     _id: Match.Optional(Match.OneOf(Match.Where(isValidId), null)),
@@ -68,6 +103,10 @@ function validJobDoc(): any {
     priority: Match.Integer,
     depends: [Match.Where(isValidId)],
     resolved: [Match.Where(isValidId)],
+    group: Match.Optional(String),
+    uniqueKey: Match.Optional(String),
+    liveUniqueKey: Match.Optional(String),
+    scheduleName: Match.Optional(String),
     after: Date,
     updated: Date,
     workTimeout: Match.Optional(Match.Where(validIntGTEOne)),
@@ -80,14 +119,54 @@ function validJobDoc(): any {
     retryUntil: Date,
     retryWait: Match.Where(validIntGTEZero),
     retryBackoff: Match.Where(validRetryBackoff),
+    retryMaxWait: Match.Optional(Match.Where(validIntGTEOne)),
     repeats: Match.Where(validIntGTEZero),
     repeated: Match.Where(validIntGTEZero),
     repeatUntil: Date,
-    repeatWait: Match.OneOf(Match.Where(validIntGTEZero), Match.Where(validLaterJSObj)),
+    repeatWait: Match.OneOf(Match.Where(validIntGTEZero), validCronObj(), Match.Where(validLaterJSObj)),
+    timezone: Match.Optional(Match.Where(validTimezone)),
+    misfire: Match.Optional(Match.Where(validMisfirePolicy)),
+    misfireLimit: Match.Optional(Match.Where(validIntGTEOne)),
+    deadLetter: Match.Optional({ at: Date, root: String }),
+    logLimit: Match.Optional(Match.Where(validIntGTEOne)),
+    maxRuntime: Match.Optional(Match.Where(validTimeout)),
+    traceContext: Match.Optional(Object),
     created: Date
   };
 }
 
+/**
+ * Query for ready jobs that still fit in a getWork budget, or null when no
+ * type has room left
+ */
+function readyWorkQuery(budgets: WorkBudgets): any {
+  const typeArray = Object.keys(budgets.available).filter(t => budgets.available[t] > 0);
+  if (typeArray.length === 0) {
+    return null;
+  }
+
+  const query: any = {
+    type: { $in: typeArray },
+    status: 'ready',
+    runId: null
+  };
+  if (budgets.busyGroups.size > 0) {
+    query.group = { $nin: Array.from(budgets.busyGroups) };
+  }
+  return query;
+}
+
+interface RateLimitReservation {
+  key: string;
+  granted: number;
+}
+
+interface WorkBudgets {
+  available: Record<JobType, number>;
+  rateLimited: Record<JobType, RateLimitReservation>;
+  busyGroups: Set<string>;
+}
+
 declare const later: any;
 declare const share: any;
 
@@ -97,6 +176,8 @@ declare const share: any;
 export class JobCollectionBase extends Mongo.Collection<JobDocument> {
   root!: string;
   later: any;
+  workClaiming: JobWorkClaiming = 'atomic';
+  logCollection = false;
   
   // Validation functions
   _validNumGTEZero = validNumGTEZero;
@@ -134,7 +215,21 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
   _logMessage!: Record<string, (...args: any[]) => JobLogEntry>;
   _toLog?: (userId: string, method: string, message: string) => void;
   _unblockDDPMethods?: boolean;
+  // Keyed by job type, so no prototype: a type may be named e.g. 'toString'
+  _rateLimits: Record<JobType, JobRateLimit> = Object.create(null);
+  _rateLimitState?: Mongo.Collection<any>;
+  // Keyed by job type, so no prototype: a type may be named e.g. 'constructor'
+  _concurrencyLimits: Record<JobType, number> = Object.create(null);
+  // Registered names come from callers, so no prototype and only own keys count
+  _backoffs: Record<string, JobBackoffFunction> = Object.create(null);
+  _deadLetterOptions?: JobDeadLetterOptions;
+  _logLimit?: { max: number; spill: boolean };
+  _logs?: Mongo.Collection<any>;
   scrubJobDoc?: (job: JobDocument) => JobDocument;
+  classifyFailure?: (
+    err: any,
+    doc: JobDocument
+  ) => JobFailureClassification | void | Promise<JobFailureClassification | void>;
 
   constructor(root: string = 'queue', options: any = {}) {
     // Validate Mongo.Collection hasn't been modified in an incompatible way
@@ -148,6 +243,11 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     options.noCollectionSuffix = options.noCollectionSuffix ?? false;
 
+    const workClaiming: JobWorkClaiming = options.workClaiming ?? 'atomic';
+    if (!['atomic', 'batch'].includes(workClaiming)) {
+      throw new Meteor.Error(`Invalid workClaiming option: ${workClaiming}, must be 'atomic' or 'batch'`);
+    }
+
     let collectionName = root;
     if (!options.noCollectionSuffix) {
       collectionName += '.jobs';
@@ -155,11 +255,17 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     // Remove non-standard options before calling Mongo.Collection constructor
     delete options.noCollectionSuffix;
+    delete options.workClaiming;
+
+    const logCollection = !!options.logCollection;
+    delete options.logCollection;
 
     // Call super constructor FIRST
     super(collectionName, options);
 
     this.root = root;
+    this.workClaiming = workClaiming;
+    this.logCollection = logCollection;
     this.later = typeof later !== 'undefined' ? later : undefined;
 
     Job.setDDP(options.connection, this.root);
@@ -198,6 +304,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       cancelled: () => this._createLogEntry('Job Cancelled', null, 'warning'),
       restarted: () => this._createLogEntry('Job Restarted'),
       resubmitted: () => this._createLogEntry('Job Resubmitted'),
+      misfired: (after: Date) =>
+        this._createLogEntry('Skipped missed scheduled run', null, 'warning', new Date(), {
+          missed: after
+        }),
       submitted: () => this._createLogEntry('Job Submitted'),
       completed: (runId: JobId) => this._createLogEntry('Job Completed', runId, 'success'),
       resolved: (id: JobId, runId: JobId) =>
@@ -228,6 +338,14 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     return Job.getJob(this.root, id, options, cb);
   }
 
+  getJobLog(id: JobId, options?: any, cb?: any) {
+    return Job.getJobLog(this.root, id, options, cb);
+  }
+
+  stats(options?: any, cb?: any) {
+    return Job.stats(this.root, options, cb);
+  }
+
   getWork(type: any, options?: any, cb?: any) {
     return Job.getWork(this.root, type, options, cb);
   }
@@ -294,6 +412,54 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     throw new Error('Server-only function jc.setLogStream() invoked on client.');
   }
 
+  setRateLimit(_type: JobType, _limit: JobRateLimit | null): void {
+    throw new Error('Server-only function jc.setRateLimit() invoked on client.');
+  }
+
+  setConcurrencyLimit(_type: JobType, _max: number | null): void {
+    throw new Error('Server-only function jc.setConcurrencyLimit() invoked on client.');
+  }
+
+  setDeadLetter(_options: JobDeadLetterOptions | null): void {
+    throw new Error('Server-only function jc.setDeadLetter() invoked on client.');
+  }
+
+  redrive(_ids?: JobId | JobId[], _options?: JobRedriveOptions): Promise<number> {
+    throw new Error('Server-only function jc.redrive() invoked on client.');
+  }
+
+  metrics(): Promise<string> {
+    throw new Error('Server-only function jc.metrics() invoked on client.');
+  }
+
+  metricsHandler(): (req: any, res: any) => void {
+    throw new Error('Server-only function jc.metricsHandler() invoked on client.');
+  }
+
+  setLogLimit(_max: number | null, _options?: JobLogLimitOptions): void {
+    throw new Error('Server-only function jc.setLogLimit() invoked on client.');
+  }
+
+  setRetention(_policy: JobRetentionPolicy | null): void {
+    throw new Error('Server-only function jc.setRetention() invoked on client.');
+  }
+
+  registerBackoff(_name: string, _fn: JobBackoffFunction): void {
+    throw new Error('Server-only function jc.registerBackoff() invoked on client.');
+  }
+
+  schedule(_name: string, _type: JobType, _data: Record<string, any>, _spec: JobScheduleSpec): Promise<JobId | null> {
+    throw new Error('Server-only function jc.schedule() invoked on client.');
+  }
+
+  unschedule(_name: string): Promise<boolean> {
+    throw new Error('Server-only function jc.unschedule() invoked on client.');
+  }
+
+  listSchedules(): Promise<JobScheduleInfo[]> {
+    throw new Error('Server-only function jc.listSchedules() invoked on client.');
+  }
+
   // Client-only property (will be overridden in client.ts)
   logConsole?: boolean;
 
@@ -425,7 +591,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
   async _rerun_job(
     doc: JobDocument,
     repeats: number = doc.repeats - 1,
-    wait: number | LaterJSSchedule = doc.repeatWait,
+    wait: number | LaterJSSchedule | CronSchedule = doc.repeatWait,
     repeatUntil: Date = doc.repeatUntil
   ): Promise<JobId | null> {
     const id = doc._id;
@@ -438,6 +604,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     delete doc.failures;
     delete doc.expiresAfter;
     delete doc.workTimeout;
+    delete doc._private?.retryLastWait;
     
     doc.runId = null;
     doc.status = 'waiting';
@@ -467,7 +634,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       doc.after = time;
     }
 
-    const jobId = await this.insertAsync(doc);
+    const jobId = await this._insertJob(doc);
     if (jobId) {
       await this._DDPMethod_jobReady(jobId);
       return jobId;
@@ -478,6 +645,328 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     return null;
   }
 
+  /**
+   * Evaluates a later.js schedule, returning `count` times before or after
+   * `start` (default now). later.js can only run in UTC or the server's local
+   * time, so for a job time zone the schedule runs in UTC against the zone's
+   * wall clock and the results are mapped back to real instants, which keeps
+   * runs at the same local time across DST transitions.
+   */
+  _laterTimes(
+    repeatWait: LaterJSSchedule,
+    direction: 'next' | 'prev',
+    count: number,
+    start?: Date,
+    timezone?: string
+  ): Date[] {
+    const toDates = (res: any): Date[] => {
+      if (!res) return [];
+      return (Array.isArray(res) ? res : [res]).map((d: any) => new Date(d));
+    };
+    const schedule = this.later.schedule(repeatWait);
+
+    if (!timezone) {
+      return toDates(schedule[direction](count, start));
+    }
+
+    const wasUTC = this.later.date.isUTC;
+    this.later.date.UTC();
+    try {
+      const wallStart = toWallTime(start ?? new Date(), timezone);
+      return toDates(schedule[direction](count, wallStart)).map(d => fromWallTime(d, timezone));
+    } finally {
+      if (!wasUTC) {
+        this.later.date.localTime();
+      }
+    }
+  }
+
+  /**
+   * Moves `after` of a cron or later.js scheduled job to its first scheduled
+   * time at or after the current `after`. Returns false (with a warning) if
+   * the schedule has no usable time.
+   */
+  _scheduleFirstRun(doc: JobDocument): boolean {
+    if (isCronSchedule(doc.repeatWait)) {
+      const next = nextCronTime(doc.repeatWait.cron, new Date(doc.after.valueOf() - 1), doc.timezone);
+      if (!next) {
+        console.warn(`No valid cron times in schedule after ${doc.after}`);
+        return false;
+      }
+      if (next > doc.repeatUntil) {
+        console.warn(`No valid cron times in schedule before ${doc.repeatUntil}`);
+        return false;
+      }
+      doc.after = next;
+    } else if (this.later && typeof doc.repeatWait !== 'number') {
+      const [prev] = this._laterTimes(doc.repeatWait, 'prev', 1, doc.after, doc.timezone);
+      const next = this._laterTimes(doc.repeatWait, 'next', 2, prev, doc.timezone)[1];
+      if (!next) {
+        console.warn(`No valid available later.js times in schedule after ${doc.after}`);
+        return false;
+      }
+      const nextDate = new Date(next);
+      if (nextDate > doc.repeatUntil) {
+        console.warn(`No valid available later.js times in schedule before ${doc.repeatUntil}`);
+        return false;
+      }
+      doc.after = nextDate;
+    } else if (!this.later && typeof doc.repeatWait !== 'number') {
+      console.warn('Later.js not loaded...');
+      return false;
+    }
+    if (typeof doc.repeatWait !== 'number') {
+      doc._private = { ...doc._private, scheduledAt: doc.after };
+    }
+    return true;
+  }
+
+  /**
+   * First time of a cron or later.js schedule strictly after `after`, or null
+   * if there is none (or later.js isn't loaded).
+   */
+  _nextScheduledTime(doc: JobDocument, after: Date): Date | null {
+    if (isCronSchedule(doc.repeatWait)) {
+      return nextCronTime(doc.repeatWait.cron, after, doc.timezone);
+    }
+    if (!this.later || typeof doc.repeatWait === 'number') {
+      return null;
+    }
+    const next = this._laterTimes(doc.repeatWait, 'next', 2, after, doc.timezone).find(d => d > after);
+    return next ?? null;
+  }
+
+  // Wait in ms before the next retry of a job that just failed
+  _retryWait(doc: JobDocument): number {
+    const custom = Object.hasOwn(this._backoffs, doc.retryBackoff) ? this._backoffs[doc.retryBackoff] : undefined;
+    if (!custom) {
+      return retryBackoffWait(
+        doc.retryBackoff as JobRetryBackoffMethod,
+        doc.retryWait,
+        doc.retried,
+        doc.retryMaxWait,
+        doc._private?.retryLastWait
+      );
+    }
+
+    let wait: number;
+    try {
+      wait = custom(doc.retried, doc);
+    } catch (err) {
+      console.warn(`Retry backoff '${doc.retryBackoff}' threw, using retryWait:`, err);
+      return doc.retryWait;
+    }
+    if (typeof wait !== 'number' || !Number.isFinite(wait) || wait < 0) {
+      console.warn(`Retry backoff '${doc.retryBackoff}' returned an invalid wait, using retryWait:`, wait);
+      return doc.retryWait;
+    }
+    return Math.min(Math.floor(wait), doc.retryMaxWait ?? Infinity);
+  }
+
+  // Flags a permanently failed job as dead-lettered, and copies or moves it to the dead letter collection
+  async _deadLetter(id: JobId): Promise<void> {
+    const opts = this._deadLetterOptions;
+    if (!opts) {
+      return;
+    }
+
+    const deadLetter = { at: new Date(), root: this.root };
+    await this.updateAsync({ _id: id, status: 'failed' }, { $set: { deadLetter } });
+    if (!opts.collection) {
+      return;
+    }
+
+    const doc = await this.findOneAsync({ _id: id, status: 'failed' }, { transform: null });
+    if (!doc) {
+      return;
+    }
+    try {
+      await opts.collection.insertAsync(doc);
+    } catch (err) {
+      console.warn('Failed to copy job to dead letter collection:', id, err);
+      return;
+    }
+    if (opts.remove) {
+      await this.removeAsync({ _id: id });
+    }
+  }
+
+  // Value for `$push: { log }`, keeping only the newest entries when the job
+  // (`jobLimit`) or the collection has a log limit
+  _logPush(entries: JobLogEntry | JobLogEntry[], jobLimit?: number): any {
+    const max = jobLimit ?? this._logLimit?.max;
+    if (max && !this._logLimit?.spill) {
+      return { $each: Array.isArray(entries) ? entries : [entries], $slice: -max };
+    }
+    return Array.isArray(entries) ? { $each: entries } : entries;
+  }
+
+  // Lifecycle events are only emitted on the server, see server.ts
+  _hasJobListeners(_event: JobEventName): boolean {
+    return false;
+  }
+
+  _emitJobEvent(_event: JobEventName, _details: Omit<JobEvent, 'event' | 'time'>): void {}
+
+  // Milliseconds since getWork() handed out the job's current run
+  _runTime(doc: JobDocument, time: Date): number | undefined {
+    const started: Date | undefined = doc._private?.started;
+    return started ? time.valueOf() - started.valueOf() : undefined;
+  }
+
+  // Emits `event` for each job matching `selector`, if anything listens for it
+  async _emitJobEvents(event: JobEventName, selector: any): Promise<void> {
+    if (!this._hasJobListeners(event)) {
+      return;
+    }
+    const docs = await this.find(
+      selector,
+      { fields: { _id: 1, type: 1, runId: 1, status: 1 }, transform: null }
+    ).fetchAsync();
+    for (const d of docs) {
+      this._emitJobEvent(event, { id: d._id!, type: d.type, runId: d.runId, status: d.status });
+    }
+  }
+
+  /**
+   * updateAsync() for modifiers that may push to `log`. With logCollection the
+   * entries are written to the log collection instead, for each selected job.
+   */
+  async _updateWithLog(selector: any, mods: any, options?: any): Promise<number> {
+    const log = mods.$push?.log;
+    if (!this.logCollection || log === undefined) {
+      return this.updateAsync(selector, mods, options);
+    }
+
+    delete mods.$push.log;
+    if (Object.keys(mods.$push).length === 0) {
+      delete mods.$push;
+    }
+    let ids = (await this.find(selector, { fields: { _id: 1 }, transform: null }).fetchAsync()).map(d => d._id!);
+    if (!options?.multi) {
+      ids = ids.slice(0, 1);
+    }
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    // A fresh `updated` stamp tells the jobs this update modified apart from
+    // any that a concurrent change took out of the selector in the meantime
+    const stamp = new Date();
+    mods.$set = { ...mods.$set, updated: stamp };
+    const num = await this.updateAsync({ $and: [selector, { _id: { $in: ids } }] }, mods, options);
+    if (num > 0 && num < ids.length) {
+      ids = (
+        await this.find({ _id: { $in: ids }, updated: stamp }, { fields: { _id: 1 }, transform: null }).fetchAsync()
+      ).map(d => d._id!);
+    }
+    if (num > 0) {
+      await this._insertLogs(ids, log.$each ?? [log]);
+    }
+    return num;
+  }
+
+  // Writes log entries for jobs to the log collection (only present on the server), in one batch.
+  // Given the `_id`s of the entries (for a single job), entries already written are skipped.
+  async _insertLogs(ids: JobId[], entries: JobLogEntry[], entryIds?: string[]): Promise<void> {
+    if (!this._logs || ids.length === 0 || entries.length === 0) {
+      return;
+    }
+    const docs = ids.flatMap(jobId =>
+      entries.map((entry, i) => ({ _id: entryIds?.[i] ?? new Mongo.ObjectID().toHexString(), ...entry, jobId }))
+    );
+    try {
+      await this._logs.rawCollection().insertMany(docs as any[], { ordered: false });
+    } catch (err: any) {
+      const errors: any[] = err?.writeErrors ?? [err];
+      if (!entryIds || !errors.every(e => e?.code === 11000)) {
+        throw err;
+      }
+    }
+  }
+
+  async _insertJob(doc: JobDocument): Promise<JobId> {
+    if (!this.logCollection) {
+      return this.insertAsync(doc);
+    }
+    const entries = doc.log ?? [];
+    delete doc.log;
+    const id = await this.insertAsync(doc);
+    await this._insertLogs([id], entries);
+    return id;
+  }
+
+  // Removes matching jobs, along with their entries in the log collection. When
+  // the removed jobs need cleaning up after, at most `limit` of them are removed
+  async _removeJobs(selector: any, limit?: number): Promise<number> {
+    if (!this._logs && !this._hasJobListeners('job:removed')) {
+      return this.removeAsync(selector);
+    }
+
+    const docs = await this.find(
+      selector,
+      { fields: { _id: 1, type: 1, status: 1 }, transform: null, ...(limit ? { limit } : {}) }
+    ).fetchAsync();
+    if (docs.length === 0) {
+      return 0;
+    }
+    const ids = docs.map(d => d._id!);
+    const num = await this.removeAsync({ $and: [selector, { _id: { $in: ids } }] });
+    const kept = (await this.find({ _id: { $in: ids } }, { fields: { _id: 1 }, transform: null }).fetchAsync()).map(
+      d => d._id!
+    );
+    const removed = docs.filter(d => !kept.some(k => EJSON.equals(k as any, d._id as any)));
+    if (removed.length && this._logs) {
+      await this._logs.removeAsync({ jobId: { $in: removed.map(d => d._id!) } });
+    }
+    for (const d of removed) {
+      this._emitJobEvent('job:removed', { id: d._id!, type: d.type, runId: null, status: d.status });
+    }
+    return num;
+  }
+
+  /**
+   * With log spilling enabled, moves the oldest entries of a job log that
+   * is over its limit to the log collection. They are written before the log
+   * is trimmed, under ids derived from their content, so a retry (or a crash
+   * in between) never loses or duplicates them. The log is only trimmed if no
+   * entry was added since it was read.
+   */
+  async _spillLog(id: JobId, jobLimit?: number): Promise<void> {
+    const limit = jobLimit ?? this._logLimit?.max;
+    if (!limit || !this._logLimit?.spill || !this._logs) {
+      return;
+    }
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const doc = await this.findOneAsync(
+        { _id: id, [`log.${limit}`]: { $exists: true } },
+        { fields: { log: 1 }, transform: null }
+      );
+      if (!doc?.log) {
+        return;
+      }
+
+      const size = doc.log.length;
+      const spilled = doc.log.slice(0, size - limit);
+      const seen: Record<string, number> = Object.create(null);
+      const entryIds = spilled.map(entry => {
+        const key = `${id}:${hashString(EJSON.stringify(entry as any))}`;
+        seen[key] = (seen[key] ?? -1) + 1;
+        return `${key}:${seen[key]}`;
+      });
+      await this._insertLogs([id], spilled, entryIds);
+
+      const num = await this.updateAsync(
+        { _id: id, log: { $size: size } },
+        { $push: { log: { $each: [], $slice: -limit } } }
+      );
+      if (num === 1) {
+        return;
+      }
+    }
+  }
+
   async _checkDeps(job: JobDocument, dryRun = true): Promise<any> {
     let cancel = false;
     const resolved: JobId[] = [];
@@ -541,11 +1030,11 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
           },
           $push: {
             resolved: { $each: resolved },
-            log: { $each: log }
+            log: this._logPush(log)
           }
         };
 
-        const n = await this.updateAsync(
+        const n = await this._updateWithLog(
           {
             _id: job._id,
             status: 'waiting'
@@ -650,12 +1139,168 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
         scrubbedDocs = docs.map(d => this.scrubJobDoc!(d));
       }
       check(scrubbedDocs, [validJobDoc()]);
+      if (options.getLog && this.logCollection && this._logs) {
+        for (const d of scrubbedDocs) {
+          d.log = await this._logs.find(
+            { jobId: d._id },
+            { sort: { time: 1 }, fields: { _id: 0, jobId: 0 } }
+          ).fetchAsync();
+        }
+      }
       return single ? scrubbedDocs[0] : scrubbedDocs;
     }
 
     return null;
   }
 
+  /**
+   * Returns a page of a job's log entries, newest first, from both the job
+   * document and the log collection. Each entry carries a `cursor`; pass the
+   * last one back as `cursor` to get the next page. Entries logged in the same
+   * millisecond keep a stable order, so none are skipped between pages.
+   */
+  async _DDPMethod_getJobLog(id: JobId, options: GetJobLogOptions = {}): Promise<JobLogPageEntry[]> {
+    check(id, Match.Where(isValidId));
+    check(
+      options,
+      Match.Optional({
+        runId: Match.Optional(Match.OneOf(Match.Where(isValidId), null)),
+        level: Match.Optional(Match.OneOf(Match.Where(validLogLevel), [Match.Where(validLogLevel)])),
+        limit: Match.Optional(Match.Where(validIntGTEOne)),
+        before: Match.Optional(Date),
+        cursor: Match.Optional(Match.Where(validLogCursor))
+      })
+    );
+
+    const opts = options ?? {};
+    const limit = opts.limit ?? 100;
+    const levels = opts.level === undefined ? undefined : Array.isArray(opts.level) ? opts.level : [opts.level];
+    // A cursor is `<time>:<ordinal>`, the ordinal counting entries of that same time
+    const [cursorTime, cursorOrdinal] = opts.cursor ? opts.cursor.split(':').map(Number) : [];
+    const inRange = (time: Date) =>
+      (!opts.before || time < opts.before) && (cursorTime === undefined || time.valueOf() <= cursorTime);
+    const matches = (e: JobLogEntry) =>
+      (opts.runId === undefined || EJSON.equals(e.runId as any, opts.runId as any)) &&
+      (!levels || levels.includes(e.level)) &&
+      inRange(e.time);
+
+    // Embedded entries are newer than spilled ones logged in the same millisecond,
+    // and each source is already in a stable newest-first order
+    let entries: JobLogEntry[] = [];
+    const doc = await this.findOneAsync({ _id: id }, { fields: { log: 1 }, transform: null });
+    if (doc?.log?.length) {
+      entries = doc.log.filter(matches).reverse();
+    }
+    if (this._logs) {
+      const query: any = { jobId: id };
+      if (opts.runId !== undefined) query.runId = opts.runId;
+      if (levels) query.level = { $in: levels };
+      if (opts.before || opts.cursor) {
+        query.time = {};
+        if (opts.before) query.time.$lt = opts.before;
+        if (opts.cursor) query.time.$lte = new Date(cursorTime);
+      }
+      const logged = await this._logs
+        .find(query, {
+          sort: { time: -1, _id: -1 },
+          limit: limit + (cursorOrdinal ?? -1) + 1,
+          fields: { _id: 0, jobId: 0 }
+        })
+        .fetchAsync();
+      entries = entries.concat(logged);
+    }
+
+    // Array.prototype.sort is stable, so entries of the same time keep the order above
+    entries.sort((a, b) => b.time.valueOf() - a.time.valueOf());
+    const page: JobLogPageEntry[] = [];
+    let ordinal = 0;
+    for (let i = 0; i < entries.length && page.length < limit; i++) {
+      const time = entries[i].time.valueOf();
+      ordinal = i > 0 && entries[i - 1].time.valueOf() === time ? ordinal + 1 : 0;
+      if (time === cursorTime && ordinal <= cursorOrdinal) {
+        continue;
+      }
+      page.push({ ...entries[i], cursor: `${time}:${ordinal}` });
+    }
+    return page;
+  }
+
+  /**
+   * Per-type queue statistics in a single aggregation: job counts by status,
+   * how long the oldest ready job has been waiting, and average wait and run
+   * times of jobs handed out by getWork().
+   */
+  async _DDPMethod_stats(options: JobStatsOptions = {}): Promise<JobStats> {
+    check(
+      options,
+      Match.Optional({
+        types: Match.Optional([String]),
+        since: Match.Optional(Date)
+      })
+    );
+
+    // Don't simulate stats on client
+    if (!Meteor.isServer) {
+      return {};
+    }
+
+    const opts = options ?? {};
+    const time = new Date();
+    const started = { '_private.started': opts.since ? { $gte: opts.since } : { $exists: true } };
+
+    const [facets]: any[] = await this.rawCollection()
+      .aggregate([
+        { $match: opts.types ? { type: { $in: opts.types } } : {} },
+        {
+          $facet: {
+            counts: [{ $group: { _id: { type: '$type', status: '$status' }, count: { $sum: 1 } } }],
+            oldestReady: [
+              { $match: { status: 'ready' } },
+              { $group: { _id: '$type', after: { $min: '$after' } } }
+            ],
+            waits: [
+              { $match: { status: { $in: ['running', 'completed', 'failed'] }, ...started } },
+              { $group: { _id: '$type', avg: { $avg: { $subtract: ['$_private.started', '$after'] } } } }
+            ],
+            runs: [
+              { $match: { status: 'completed', ...started } },
+              { $group: { _id: '$type', avg: { $avg: { $subtract: ['$updated', '$_private.started'] } } } }
+            ]
+          }
+        }
+      ])
+      .toArray();
+
+    const stats: JobStats = {};
+    const forType = (type: JobType): JobTypeStats => {
+      if (!stats[type]) {
+        const counts = {} as Record<JobStatus, number>;
+        for (const status of Job.jobStatuses) {
+          counts[status] = 0;
+        }
+        stats[type] = { counts, oldestReadyAge: null, avgWaitTime: null, avgRunTime: null };
+      }
+      return stats[type];
+    };
+
+    for (const type of opts.types ?? []) {
+      forType(type);
+    }
+    for (const c of facets.counts) {
+      forType(c._id.type).counts[c._id.status as JobStatus] = c.count;
+    }
+    for (const r of facets.oldestReady) {
+      forType(r._id).oldestReadyAge = Math.max(0, time.valueOf() - r.after.valueOf());
+    }
+    for (const w of facets.waits) {
+      forType(w._id).avgWaitTime = Math.max(0, Math.round(w.avg));
+    }
+    for (const r of facets.runs) {
+      forType(r._id).avgRunTime = Math.round(r.avg);
+    }
+    return stats;
+  }
+
   async _DDPMethod_getWork(type: JobType | JobType[], options: GetWorkOptions = {}): Promise<JobDocument[]> {
     check(type, Match.OneOf(String, [String]));
     check(
@@ -670,60 +1315,361 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     const typeArray = typeof type === 'string' ? [type] : type;
     const time = new Date();
-    const docs: JobDocument[] = [];
     // Generate a new run ID
     const runId = (this as any)._makeNewID ? (this as any)._makeNewID() : new Mongo.ObjectID().toHexString();
 
-    while (docs.length < options.maxJobs) {
-      const ids = (
-        await this.find(
-          {
-            type: { $in: typeArray },
-            status: 'ready',
-            runId: null
-          },
-          {
-            sort: {
-              priority: 1,
-              retryUntil: 1,
-              after: 1
-            },
-            limit: options.maxJobs - docs.length,
-            fields: { _id: 1 },
-            transform: null
-          }
-        ).fetchAsync()
-      ).map((d: any) => d._id);
+    const mods: any = {
+      $set: {
+        status: 'running',
+        runId: runId,
+        updated: time,
+        '_private.started': time
+      },
+      $inc: {
+        retries: -1,
+        retried: 1
+      }
+    };
 
-      if (!ids || ids.length === 0) {
-        break;
+    // With logCollection the entry is written only for the jobs finally handed out.
+    // These mods are shared by every claimed job, so a job's own logLimit is
+    // applied by its next capped write (jobLog, jobDone or jobFail)
+    const logObj = this._logMessage.running(runId);
+    if (logObj && !this.logCollection) {
+      mods.$push = { log: this._logPush(logObj) };
+    }
+
+    if (options.workTimeout) {
+      mods.$set.workTimeout = options.workTimeout;
+      mods.$set.expiresAfter = new Date(time.valueOf() + options.workTimeout);
+    } else {
+      mods.$unset = {
+        workTimeout: '',
+        expiresAfter: ''
+      };
+    }
+
+    const budgets = await this._reserveWork(typeArray, options.maxJobs);
+    let docs: JobDocument[] = [];
+    try {
+      if (this.workClaiming === 'atomic' && this._canClaimAtomically(runId)) {
+        docs = await this._claimWorkAtomic(budgets, options.maxJobs, runId, mods);
+      } else {
+        docs = await this._claimWorkBatch(budgets, options.maxJobs, runId, mods);
       }
+      docs = await this._enforceConcurrencyLimits(docs, runId);
+      docs = await this._enforceGroupExclusivity(docs, runId);
+    } finally {
+      await this._releaseWork(budgets, docs);
+    }
+    if (logObj && this.logCollection && docs.length) {
+      await this._insertLogs(docs.map(d => d._id!), [logObj]);
+    }
+    for (const d of docs) {
+      this._emitJobEvent('job:running', { id: d._id!, type: d.type, runId, status: 'running' });
+    }
+    return docs;
+  }
 
-      const mods: any = {
+  /**
+   * Works out how many jobs of each type may be claimed by this getWork call,
+   * reserving rate limit tokens for the types that have a limit configured,
+   * and which concurrency groups already have a running job.
+   */
+  async _reserveWork(typeArray: JobType[], maxJobs: number): Promise<WorkBudgets> {
+    const budgets: WorkBudgets = { available: Object.create(null), rateLimited: Object.create(null), busyGroups: new Set() };
+
+    const grouped = await this.find(
+      { status: 'running', group: { $exists: true } },
+      { fields: { group: 1 }, transform: null }
+    ).fetchAsync();
+    for (const d of grouped) {
+      budgets.busyGroups.add(d.group!);
+    }
+
+    for (const t of typeArray) {
+      budgets.available[t] = maxJobs;
+      if (this._concurrencyLimits[t]) {
+        const running = await this.find({ type: t, status: 'running' }).countAsync();
+        budgets.available[t] = Math.max(0, Math.min(maxJobs, this._concurrencyLimits[t] - running));
+      }
+      if (this._rateLimits[t] && budgets.available[t] > 0) {
+        const reservation = await this._reserveRateLimit(t, budgets.available[t]);
+        budgets.rateLimited[t] = reservation;
+        budgets.available[t] = reservation.granted;
+      }
+    }
+
+    return budgets;
+  }
+
+  /**
+   * Competing getWork calls can each see room under a type's concurrency limit
+   * and claim at the same time, so recount after claiming and give back any of
+   * this call's jobs that pushed the type over its limit.
+   */
+  async _enforceConcurrencyLimits(docs: JobDocument[], runId: JobId): Promise<JobDocument[]> {
+    const excess: JobDocument[] = [];
+
+    for (const t of new Set(docs.map(d => d.type))) {
+      const max = this._concurrencyLimits[t];
+      if (!max) {
+        continue;
+      }
+      const running = await this.find({ type: t, status: 'running' }).countAsync();
+      if (running > max) {
+        const ours = docs.filter(d => d.type === t);
+        excess.push(...ours.slice(Math.max(0, ours.length - (running - max))));
+      }
+    }
+
+    if (excess.length === 0) {
+      return docs;
+    }
+    await this._unclaimWork(excess, runId);
+    return docs.filter(d => !excess.includes(d));
+  }
+
+  /**
+   * Two getWork calls can claim different jobs of the same group at once. When
+   * another job of a claimed job's group is also running, give ours back; if
+   * both calls do so, the group simply waits for the next poll.
+   */
+  async _enforceGroupExclusivity(docs: JobDocument[], runId: JobId): Promise<JobDocument[]> {
+    const conflicts: JobDocument[] = [];
+
+    for (const d of docs) {
+      if (d.group === undefined) {
+        continue;
+      }
+      const other = await this.findOneAsync(
+        { group: d.group, status: 'running', _id: { $ne: d._id! } },
+        { fields: { _id: 1 } }
+      );
+      if (other) {
+        conflicts.push(d);
+      }
+    }
+
+    if (conflicts.length === 0) {
+      return docs;
+    }
+    await this._unclaimWork(conflicts, runId);
+    return docs.filter(d => !conflicts.includes(d));
+  }
+
+  /**
+   * Returns claimed jobs to the ready state, undoing the getWork claim
+   */
+  async _unclaimWork(docs: JobDocument[], runId: JobId): Promise<void> {
+    const num = await this.updateAsync(
+      {
+        _id: { $in: docs.map(d => d._id!) },
+        runId: runId,
+        status: 'running'
+      },
+      {
         $set: {
-          status: 'running',
-          runId: runId,
-          updated: time
+          status: 'ready',
+          runId: null,
+          updated: new Date()
         },
         $inc: {
-          retries: -1,
-          retried: 1
+          retries: 1,
+          retried: -1
+        },
+        $unset: {
+          workTimeout: '',
+          expiresAfter: ''
+        },
+        $pull: {
+          log: { runId: runId }
         }
-      };
+      } as any,
+      { multi: true }
+    );
 
-      const logObj = this._logMessage.running(runId);
-      if (logObj) {
-        mods.$push = { log: logObj };
+    if (num !== docs.length) {
+      console.warn(`Not all claimed jobs were returned to ready ${docs.length} > ${num}`);
+    }
+  }
+
+  /**
+   * Hands back any reserved rate limit tokens that weren't used by claimed jobs
+   */
+  async _releaseWork(budgets: WorkBudgets, docs: JobDocument[]): Promise<void> {
+    for (const [t, reservation] of Object.entries(budgets.rateLimited)) {
+      const used = docs.filter(d => d.type === t).length;
+      if (reservation.granted > used) {
+        await this._releaseRateLimit(reservation, reservation.granted - used);
       }
+    }
+  }
 
-      if (options.workTimeout) {
-        mods.$set.workTimeout = options.workTimeout;
-        mods.$set.expiresAfter = new Date(time.valueOf() + options.workTimeout);
-      } else {
-        mods.$unset = {
-          workTimeout: '',
-          expiresAfter: ''
-        };
+  /**
+   * Takes up to `wanted` tokens from the current fixed window of a type's rate
+   * limit. Window counters live in the `<root>.ratelimits` collection so that
+   * every server instance shares them and they survive restarts.
+   */
+  async _reserveRateLimit(type: JobType, wanted: number): Promise<RateLimitReservation> {
+    const { limit, period } = this._rateLimits[type];
+    const windowStart = Math.floor(Date.now() / period) * period;
+    const reservation: RateLimitReservation = { key: `${type}@${windowStart}`, granted: 0 };
+
+    if (!this._rateLimitState || !Meteor.isServer) {
+      return reservation;
+    }
+
+    const raw: any = this._rateLimitState.rawCollection();
+    const res = await raw.findOneAndUpdate(
+      { _id: reservation.key },
+      {
+        $inc: { count: wanted },
+        $setOnInsert: {
+          type,
+          expires: new Date(windowStart + period)
+        }
+      },
+      {
+        upsert: true,
+        returnDocument: 'after',
+        includeResultMetadata: true
+      }
+    );
+
+    const count = res?.value?.count ?? wanted;
+    reservation.granted = Math.max(0, Math.min(wanted, limit - (count - wanted)));
+    if (reservation.granted < wanted) {
+      await this._releaseRateLimit(reservation, wanted - reservation.granted);
+    }
+    return reservation;
+  }
+
+  async _releaseRateLimit(reservation: RateLimitReservation, count: number): Promise<void> {
+    if (!this._rateLimitState) {
+      return;
+    }
+    await this._rateLimitState.updateAsync(
+      { _id: reservation.key },
+      { $inc: { count: -count } }
+    );
+  }
+
+  /**
+   * Atomic claiming needs direct driver access, which only exists on the server.
+   * Non-string runIds (idGeneration: 'MONGO') would not survive a raw driver
+   * write, so those collections stay on the batch path.
+   */
+  _canClaimAtomically(runId: JobId): boolean {
+    return Meteor.isServer && typeof this.rawCollection === 'function' && typeof runId === 'string';
+  }
+
+  /**
+   * Claims ready jobs one document at a time with findOneAndUpdate, so each
+   * call takes the highest priority ready job without a separate find step
+   * that competing workers can race on.
+   */
+  async _claimWorkAtomic(budgets: WorkBudgets, maxJobs: number, runId: JobId, mods: any): Promise<JobDocument[]> {
+    const raw: any = this.rawCollection();
+    let claimed = 0;
+
+    while (claimed < maxJobs) {
+      const query = readyWorkQuery(budgets);
+      if (!query) {
+        break;
+      }
+
+      // includeResultMetadata keeps the ModifyResult shape across driver versions
+      const res = await raw.findOneAndUpdate(
+        query,
+        mods,
+        {
+          sort: {
+            priority: 1,
+            retryUntil: 1,
+            after: 1
+          },
+          projection: { _id: 1, type: 1, group: 1 },
+          includeResultMetadata: true
+        }
+      );
+
+      if (!res || !res.value) {
+        break;
+      }
+      budgets.available[res.value.type]--;
+      if (res.value.group !== undefined) {
+        budgets.busyGroups.add(res.value.group);
+      }
+      claimed++;
+    }
+
+    if (claimed === 0) {
+      return [];
+    }
+
+    let docs = await this.find(
+      { runId: runId },
+      {
+        fields: {
+          log: 0,
+          failures: 0,
+          _private: 0
+        },
+        transform: null
+      }
+    ).fetchAsync();
+
+    if (this.scrubJobDoc) {
+      docs = docs.map(d => this.scrubJobDoc!(d));
+    }
+    check(docs, [validJobDoc()]);
+    return docs;
+  }
+
+  /**
+   * Claims ready jobs by finding candidate _ids and flipping them to running
+   * with a multi update, repeating until maxJobs is filled or none are left.
+   */
+  async _claimWorkBatch(budgets: WorkBudgets, maxJobs: number, runId: JobId, mods: any): Promise<JobDocument[]> {
+    const docs: JobDocument[] = [];
+
+    while (docs.length < maxJobs) {
+      const query = readyWorkQuery(budgets);
+      if (!query) {
+        break;
+      }
+
+      const candidates = await this.find(
+        query,
+        {
+          sort: {
+            priority: 1,
+            retryUntil: 1,
+            after: 1
+          },
+          limit: maxJobs - docs.length,
+          fields: { _id: 1, type: 1, group: 1 },
+          transform: null
+        }
+      ).fetchAsync();
+
+      if (!candidates || candidates.length === 0) {
+        break;
+      }
+
+      // Only take as many of each type as its budget allows, and one job per group
+      const remaining = { ...budgets.available };
+      const groups = new Set<string>();
+      const ids: JobId[] = [];
+      for (const d of candidates) {
+        if (remaining[d.type] > 0 && !(d.group !== undefined && groups.has(d.group))) {
+          remaining[d.type]--;
+          if (d.group !== undefined) {
+            groups.add(d.group);
+          }
+          ids.push(d._id!);
+        }
       }
 
       const num = await this.updateAsync(
@@ -757,6 +1703,12 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
             foundDocs = foundDocs.map(d => this.scrubJobDoc!(d));
           }
           check(docs, [validJobDoc()]);
+          for (const d of foundDocs) {
+            budgets.available[d.type]--;
+            if (d.group !== undefined) {
+              budgets.busyGroups.add(d.group);
+            }
+          }
           docs.push(...foundDocs);
         }
       }
@@ -775,7 +1727,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       return false;
     }
 
-    const num = await this.removeAsync({
+    const num = await this._removeJobs({
       _id: { $in: idsArray },
       status: { $in: this.jobStatusRemovable as any }
     });
@@ -809,10 +1761,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     const logObj = this._logMessage.paused();
     if (logObj) {
-      mods.$push = { log: logObj };
+      mods.$push = { log: this._logPush(logObj) };
     }
 
-    const num = await this.updateAsync(
+    const num = await this._updateWithLog(
       {
         _id: { $in: idsArray },
         status: { $in: this.jobStatusPausable as any }
@@ -850,10 +1802,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     const logObj = this._logMessage.resumed();
     if (logObj) {
-      mods.$push = { log: logObj };
+      mods.$push = { log: this._logPush(logObj) };
     }
 
-    const num = await this.updateAsync(
+    const num = await this._updateWithLog(
       {
         _id: { $in: idsArray },
         status: 'paused',
@@ -922,11 +1874,19 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     if (logObj.length > 0) {
       mods.$push = {
-        log: { $each: logObj }
+        log: this._logPush(logObj)
       };
     }
 
-    const num = await this.updateAsync(query, mods, { multi: true });
+    const num = await this._updateWithLog(query, mods, { multi: true });
+
+    if (num > 0) {
+      const readied: any = { status: 'ready', updated: now };
+      if (idsArray.length > 0) {
+        readied._id = { $in: idsArray };
+      }
+      await this._emitJobEvents('job:ready', readied);
+    }
 
     return num > 0;
   }
@@ -962,15 +1922,16 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
           percent: 0
         },
         updated: time
-      }
+      },
+      $unset: { liveUniqueKey: '' }
     };
 
     const logObj = this._logMessage.cancelled();
     if (logObj) {
-      mods.$push = { log: logObj };
+      mods.$push = { log: this._logPush(logObj) };
     }
 
-    const num = await this.updateAsync(
+    const num = await this._updateWithLog(
       {
         _id: { $in: idsArray },
         status: { $in: this.jobStatusCancellable as any }
@@ -979,6 +1940,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       { multi: true }
     );
 
+    if (num > 0) {
+      await this._emitJobEvents('job:cancelled', { _id: { $in: idsArray }, status: 'cancelled', updated: time });
+    }
+
     const cancelIds = await this._idsOfDeps(idsArray, opts.antecedents, opts.dependents, this.jobStatusCancellable);
 
     let depsCancelled = false;
@@ -1042,14 +2007,14 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
     const logObj = this._logMessage.restarted();
     if (logObj) {
-      mods.$push = { log: logObj };
+      mods.$push = { log: this._logPush(logObj) };
     }
 
     if (opts.until) {
       mods.$set.retryUntil = opts.until;
     }
 
-    const num = await this.updateAsync(query, mods, { multi: true });
+    const num = await this._updateWithLog(query, mods, { multi: true });
 
     const restartIds = await this._idsOfDeps(idsArray, opts.antecedents!, opts.dependents!, this.jobStatusRestartable);
 
@@ -1073,13 +2038,23 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     check(
       options,
       Match.Optional({
-        cancelRepeats: Match.Optional(Boolean)
+        cancelRepeats: Match.Optional(Boolean),
+        unique: Match.Optional(Boolean),
+        uniqueKey: Match.Optional(String)
       })
     );
     check(doc.status, Match.Where((v) => Match.test(v, String) && ['waiting', 'paused'].includes(v)));
+    if (
+      Meteor.isServer &&
+      !(Job.jobRetryBackoffMethods as readonly string[]).includes(doc.retryBackoff) &&
+      !Object.hasOwn(this._backoffs, doc.retryBackoff)
+    ) {
+      throw new Meteor.Error(`Unknown retry backoff method: ${doc.retryBackoff}`);
+    }
 
     const opts: any = options ?? {};
     opts.cancelRepeats = opts.cancelRepeats ?? false;
+    opts.unique = opts.unique ?? false;
     doc.repeats = Math.min(doc.repeats, this.forever);
     doc.retries = Math.min(doc.retries, this.forever);
 
@@ -1090,26 +2065,8 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     if (doc.retryUntil < time) doc.retryUntil = time;
     if (doc.repeatUntil < time) doc.repeatUntil = time;
 
-    // Handle later.js scheduling
-    if (this.later && typeof doc.repeatWait !== 'number') {
-      const schedule = this.later.schedule(doc.repeatWait);
-      if (!schedule) {
-        console.warn(`No valid available later.js times in schedule after ${doc.after}`);
-        return null;
-      }
-      const next = schedule.next(2, schedule.prev(1, doc.after))[1];
-      if (!next) {
-        console.warn(`No valid available later.js times in schedule after ${doc.after}`);
-        return null;
-      }
-      const nextDate = new Date(next);
-      if (nextDate > doc.repeatUntil) {
-        console.warn(`No valid available later.js times in schedule before ${doc.repeatUntil}`);
-        return null;
-      }
-      doc.after = nextDate;
-    } else if (!this.later && typeof doc.repeatWait !== 'number') {
-      console.warn('Later.js not loaded...');
+    // Handle cron and later.js scheduling
+    if (!this._scheduleFirstRun(doc)) {
       return null;
     }
 
@@ -1134,12 +2091,25 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
         }
       };
 
+      if (doc._private?.scheduledAt) {
+        mods.$set['_private.scheduledAt'] = doc._private.scheduledAt;
+      }
+
+      // Clear optional fields the resubmitted job no longer has
+      for (const field of ['group', 'timezone', 'misfire', 'misfireLimit', 'retryMaxWait', 'logLimit', 'maxRuntime'] as const) {
+        if (doc[field] !== undefined) {
+          mods.$set[field] = doc[field];
+        } else {
+          mods.$unset = { ...mods.$unset, [field]: '' };
+        }
+      }
+
       const logObj = this._logMessage.resubmitted();
       if (logObj) {
-        mods.$push = { log: logObj };
+        mods.$push = { log: this._logPush(logObj) };
       }
 
-      const num = await this.updateAsync(
+      const num = await this._updateWithLog(
         {
           _id: doc._id,
           status: 'paused',
@@ -1148,6 +2118,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
         mods
       );
 
+      if (num) {
+        this._emitJobEvent('job:saved', { id: doc._id, type: doc.type, runId: null, status: 'waiting' });
+      }
+
       if (num && (await this._checkDeps(doc, false))) {
         await this._DDPMethod_jobReady(doc._id);
         return doc._id;
@@ -1156,6 +2130,27 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       }
     } else {
       // Insert new job
+      if (opts.uniqueKey) {
+        doc.uniqueKey = opts.uniqueKey;
+      } else if (opts.unique) {
+        doc.uniqueKey = `${doc.type}:${hashString(EJSON.stringify(doc.data, { canonical: true }))}`;
+      }
+
+      if (doc.uniqueKey !== undefined) {
+        // A live job with the same key makes this save a no-op
+        const existing = await this.findOneAsync(
+          {
+            uniqueKey: doc.uniqueKey,
+            status: { $in: this.jobStatusCancellable as any }
+          },
+          { fields: { _id: 1 } }
+        );
+        if (existing) {
+          return existing._id!;
+        }
+        doc.liveUniqueKey = doc.uniqueKey;
+      }
+
       if (doc.repeats === this.forever && opts.cancelRepeats) {
         // Cancel any existing jobs of the same type
         const existingJobs = await this.find(
@@ -1173,7 +2168,21 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
       doc.created = time;
       doc.log!.push(this._logMessage.submitted());
-      doc._id = await this.insertAsync(doc);
+      try {
+        doc._id = await this._insertJob(doc);
+      } catch (err: any) {
+        // A concurrent save with the same key got in between the check above and this insert
+        if (doc.liveUniqueKey !== undefined && err?.code === 11000) {
+          const live = await this.findOneAsync({ liveUniqueKey: doc.liveUniqueKey }, { fields: { _id: 1 } });
+          if (live) {
+            return live._id!;
+          }
+        }
+        throw err;
+      }
+      if (doc._id) {
+        this._emitJobEvent('job:saved', { id: doc._id, type: doc.type, runId: null, status: doc.status });
+      }
 
       if (doc._id && (await this._checkDeps(doc, false))) {
         await this._DDPMethod_jobReady(doc._id);
@@ -1203,7 +2212,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     );
 
     const time = new Date();
-    const job = await this.findOneAsync({ _id: id }, { fields: { workTimeout: 1 } });
+    const job = await this.findOneAsync({ _id: id }, { fields: { type: 1, workTimeout: 1 } });
 
     const mods: any = {
       $set: {
@@ -1226,6 +2235,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     );
 
     if (num === 1) {
+      this._emitJobEvent('job:progress', { id, type: job!.type, runId, status: 'running', progress });
       return true;
     } else {
       console.warn('jobProgress failed');
@@ -1234,6 +2244,43 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     return false;
   }
 
+  /**
+   * Pushes back expiresAfter of running jobs by their workTimeout, and touches
+   * nothing else. Returns the ids of the jobs still running under the given
+   * runId, whether or not they have a lease to renew.
+   */
+  async _DDPMethod_jobHeartbeat(runs: JobHeartbeat[]): Promise<JobId[]> {
+    check(runs, [{ id: Match.Where(isValidId), runId: Match.Where(isValidId) }]);
+
+    if (runs.length === 0) {
+      return [];
+    }
+
+    const time = new Date();
+    const docs = await this.find(
+      { _id: { $in: runs.map(r => r.id) }, status: 'running' },
+      { fields: { runId: 1, workTimeout: 1 }, transform: null }
+    ).fetchAsync();
+    const live = docs.filter(d => runs.some(r => EJSON.equals(r.id as any, d._id as any) && EJSON.equals(r.runId as any, d.runId as any)));
+
+    // Jobs from one JobQueue share a workTimeout, so this is usually a single update
+    const byTimeout = new Map<number, JobId[]>();
+    for (const d of live) {
+      if (d.workTimeout) {
+        byTimeout.set(d.workTimeout, [...(byTimeout.get(d.workTimeout) ?? []), d._id!]);
+      }
+    }
+    for (const [workTimeout, ids] of byTimeout) {
+      await this.updateAsync(
+        { _id: { $in: ids }, status: 'running' },
+        { $set: { expiresAfter: new Date(time.valueOf() + workTimeout) } },
+        { multi: true }
+      );
+    }
+
+    return live.map(d => d._id!);
+  }
+
   async _DDPMethod_jobLog(id: JobId, runId: JobId | null, message: string, options: any = {}): Promise<boolean> {
     check(id, Match.Where(isValidId));
     check(runId, Match.OneOf(Match.Where(isValidId), null));
@@ -1259,10 +2306,12 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       logObj.data = opts.data;
     }
 
-    const job = await this.findOneAsync({ _id: id }, { fields: { status: 1, workTimeout: 1 } });
+    const job = await this.findOneAsync({ _id: id }, { fields: { status: 1, workTimeout: 1, logLimit: 1 } });
 
     const mods: any = {
-      $push: { log: logObj },
+      $push: {
+        log: this._logPush(logObj, job?.logLimit)
+      },
       $set: { updated: time }
     };
 
@@ -1270,9 +2319,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       mods.$set.expiresAfter = new Date(time.valueOf() + job.workTimeout);
     }
 
-    const num = await this.updateAsync({ _id: id }, mods);
+    const num = await this._updateWithLog({ _id: id }, mods);
     
     if (num === 1) {
+      await this._spillLog(id, job?.logLimit);
       return true;
     } else {
       console.warn('jobLog failed');
@@ -1370,15 +2420,16 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
           percent: 100
         },
         updated: time
-      }
+      },
+      $unset: { liveUniqueKey: '' }
     };
 
     const logObj = this._logMessage.completed(runId);
     if (logObj) {
-      mods.$push = { log: logObj };
+      mods.$push = { log: this._logPush(logObj, doc.logLimit) };
     }
 
-    const num = await this.updateAsync(
+    const num = await this._updateWithLog(
       {
         _id: id,
         runId: runId,
@@ -1388,6 +2439,7 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
     );
 
     if (num === 1) {
+      await this._spillLog(id, doc.logLimit);
       let jobId: JobId | null = null;
 
       // Handle repeating jobs
@@ -1397,21 +2449,42 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
             jobId = await this._rerun_job(doc);
           }
         } else {
-          // Later.js scheduling
-          const next = this.later?.schedule(doc.repeatWait).next(2);
-          if (next && next.length > 0) {
-            let d = new Date(next[0]);
-            if (d.valueOf() - time.valueOf() <= 500 && next.length > 1) {
-              d = new Date(next[1]);
+          // Cron and later.js scheduling, with a 500ms guard against rerunning the slot that just finished
+          let next = this._nextScheduledTime(doc, new Date(time.valueOf() + 500));
+          let misfires = 0;
+
+          // Catch up on scheduled times missed since this run was due, one run at a time
+          const scheduledAt: Date | undefined = doc._private?.scheduledAt;
+          if (doc.misfire === 'runAll' && scheduledAt) {
+            const missed = this._nextScheduledTime(doc, scheduledAt);
+            misfires = (doc._private?.misfires ?? 0) + 1;
+            if (missed && missed < time && misfires <= (doc.misfireLimit ?? this.forever)) {
+              next = missed;
+            } else {
+              misfires = 0;
             }
-            const wait = d.valueOf() - time.valueOf();
+          }
+
+          if (next) {
+            const wait = Math.max(next.valueOf() - time.valueOf(), 0);
             if (doc.repeatUntil.valueOf() - wait >= time.valueOf()) {
+              doc._private = { ...doc._private, scheduledAt: next, misfires };
               jobId = await this._rerun_job(doc, doc.repeats - 1, wait);
             }
           }
         }
       }
 
+      this._emitJobEvent('job:completed', {
+        id,
+        type: doc.type,
+        runId,
+        status: 'completed',
+        result,
+        runTime: this._runTime(doc, time),
+        ...(jobId ? { repeatId: jobId } : {})
+      });
+
       // Resolve dependencies
       const ids = (
         await this.find(
@@ -1436,10 +2509,10 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
 
         const depLogObj = this._logMessage.resolved(id, runId);
         if (depLogObj) {
-          depMods.$push.log = depLogObj;
+          depMods.$push.log = this._logPush(depLogObj);
         }
 
-        const n = await this.updateAsync(
+        const n = await this._updateWithLog(
           { _id: { $in: ids } },
           depMods,
           { multi: true }
@@ -1504,12 +2577,31 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       return false;
     }
 
-    const after =
-      doc.retryBackoff === 'exponential'
-        ? new Date(time.valueOf() + doc.retryWait * Math.pow(2, doc.retried - 1))
-        : new Date(time.valueOf() + doc.retryWait);
+    let fatal: boolean = opts.fatal;
+    let wait: number | undefined;
+    if (this.classifyFailure) {
+      let decision: JobFailureClassification | void = undefined;
+      try {
+        decision = await this.classifyFailure(err, doc);
+      } catch (e) {
+        console.warn('classifyFailure hook threw, using default retry handling:', e);
+      }
+      if (decision === 'fatal') {
+        fatal = true;
+      } else if (decision === 'retry') {
+        fatal = false;
+      } else if (typeof decision === 'number' && Number.isFinite(decision) && decision >= 0) {
+        fatal = false;
+        wait = Math.floor(decision);
+      } else if (decision !== undefined) {
+        console.warn('classifyFailure hook returned an invalid decision, ignoring:', decision);
+      }
+    }
 
-    const newStatus = !opts.fatal && doc.retries > 0 && doc.retryUntil >= after ? 'waiting' : 'failed';
+    wait = wait ?? this._retryWait(doc);
+    const after = new Date(time.valueOf() + wait);
+
+    const newStatus = !fatal && doc.retries > 0 && doc.retryUntil >= after ? 'waiting' : 'failed';
 
     const errorObj = err as any;
     errorObj.runId = runId;
@@ -1519,19 +2611,24 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
         status: newStatus,
         runId: null,
         after,
-        updated: time
+        updated: time,
+        // decorrelated-jitter derives each wait from the previous one
+        '_private.retryLastWait': wait
       },
       $push: {
         failures: errorObj
       }
     };
+    if (newStatus === 'failed') {
+      mods.$unset = { liveUniqueKey: '' };
+    }
 
     const logObj = this._logMessage.failed(runId, newStatus === 'failed', errorObj);
     if (logObj) {
-      mods.$push.log = logObj;
+      mods.$push.log = this._logPush(logObj, doc.logLimit);
     }
 
-    const num = await this.updateAsync(
+    const num = await this._updateWithLog(
       {
         _id: id,
         runId: runId,
@@ -1540,6 +2637,30 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       mods
     );
 
+    if (num === 1) {
+      await this._spillLog(id, doc.logLimit);
+      if (newStatus === 'failed') {
+        this._emitJobEvent('job:failed', {
+          id,
+          type: doc.type,
+          runId,
+          status: 'failed',
+          error: errorObj,
+          runTime: this._runTime(doc, time)
+        });
+      } else {
+        this._emitJobEvent('job:retrying', {
+          id,
+          type: doc.type,
+          runId,
+          status: 'waiting',
+          error: errorObj,
+          retryAt: after,
+          runTime: this._runTime(doc, time)
+        });
+      }
+    }
+
     if (newStatus === 'failed' && num === 1) {
       // Cancel dependent jobs
       const dependentJobs = await this.find(
@@ -1550,6 +2671,8 @@ export class JobCollectionBase extends Mongo.Collection<JobDocument> {
       for (const d of dependentJobs) {
         await this._DDPMethod_jobCancel(d._id!);
       }
+
+      await this._deadLetter(id);
     }
 
     if (num === 1) {
@@ -12,9 +12,16 @@ export type JobId = string | Mongo.ObjectID;
 export type JobType = string;
 export type JobStatus = 'waiting' | 'paused' | 'ready' | 'running' | 'failed' | 'cancelled' | 'completed';
 export type JobLogLevel = 'info' | 'success' | 'warning' | 'danger';
-export type JobRetryBackoffMethod = 'constant' | 'exponential';
+export type JobRetryBackoffMethod =
+  | 'constant'
+  | 'linear'
+  | 'exponential'
+  | 'exponential-jitter'
+  | 'decorrelated-jitter';
 export type JobPriorityLevel = 'low' | 'normal' | 'medium' | 'high' | 'critical';
 export type DDPPermissionLevel = 'admin' | 'manager' | 'creator' | 'worker';
+export type JobWorkClaiming = 'atomic' | 'batch';
+export type JobMisfirePolicy = 'skip' | 'runOnce' | 'runAll';
 
 export interface JobLogEntry {
   time: Date;
@@ -24,6 +31,11 @@ export interface JobLogEntry {
   data?: Record<string, any>;
 }
 
+// An entry returned by getJobLog(), with the cursor that resumes paging after it
+export interface JobLogPageEntry extends JobLogEntry {
+  cursor: string;
+}
+
 export interface JobProgress {
   completed: number;
   total: number;
@@ -35,6 +47,10 @@ export interface LaterJSSchedule {
   exceptions?: Record<string, any>[];
 }
 
+export interface CronSchedule {
+  cron: string;
+}
+
 export interface JobDocument {
   _id?: JobId | null;
   runId: JobId | null;
@@ -46,6 +62,11 @@ export interface JobDocument {
   priority: number;
   depends: JobId[];
   resolved: JobId[];
+  group?: string;
+  uniqueKey?: string;
+  // uniqueKey while the job is live; a unique index keeps concurrent saves from both inserting
+  liveUniqueKey?: string;
+  scheduleName?: string;
   after: Date;
   updated: Date;
   created: Date;
@@ -58,19 +79,49 @@ export interface JobDocument {
   repeatRetries?: number;
   retryUntil: Date;
   retryWait: number;
-  retryBackoff: JobRetryBackoffMethod;
+  retryBackoff: JobRetryBackoffMethod | string;
+  retryMaxWait?: number;
   repeats: number;
   repeated: number;
   repeatUntil: Date;
-  repeatWait: number | LaterJSSchedule;
+  repeatWait: number | LaterJSSchedule | CronSchedule;
+  timezone?: string;
+  misfire?: JobMisfirePolicy;
+  misfireLimit?: number;
+  deadLetter?: JobDeadLetter;
+  logLimit?: number;
+  maxRuntime?: number;
+  traceContext?: JobTraceContext;
   _private?: Record<string, any>;
 }
 
+// Returns the wait in ms before retry number `retried` (1 for the first retry)
+export type JobBackoffFunction = (retried: number, doc: JobDocument) => number;
+
+// Server-side failure hook result: retry (if retries remain), fail permanently, or retry after a delay in ms
+export type JobFailureClassification = 'retry' | 'fatal' | number;
+
+// Serialized trace context carried by a job, e.g. W3C { traceparent, tracestate }
+export type JobTraceContext = Record<string, string>;
+
+export interface JobSpan {
+  // Context to propagate to work done on behalf of this span
+  context(): JobTraceContext;
+  end(error?: any): void;
+}
+
+export interface JobTracer {
+  startSpan(name: string, options: { parent?: JobTraceContext; attributes?: Record<string, any> }): JobSpan;
+  // Optional: run fn with span as the active span (used around worker functions)
+  withSpan?<T>(span: JobSpan, fn: () => T): T;
+}
+
 export interface JobRetryOptions {
   retries?: number;
   until?: Date;
   wait?: number;
-  backoff?: JobRetryBackoffMethod;
+  backoff?: JobRetryBackoffMethod | string;
+  maxWait?: number;
 }
 
 export interface JobRepeatOptions {
@@ -78,6 +129,26 @@ export interface JobRepeatOptions {
   until?: Date;
   wait?: number;
   schedule?: LaterJSSchedule;
+  cron?: string;
+  timezone?: string;
+  misfire?: JobMisfirePolicy;
+  misfireLimit?: number;
+}
+
+export interface JobScheduleSpec extends JobRepeatOptions {
+  priority?: number | JobPriorityLevel;
+  retry?: number | JobRetryOptions;
+}
+
+export interface JobScheduleInfo {
+  name: string;
+  jobId: JobId;
+  type: JobType;
+  data: Record<string, any>;
+  status: JobStatus;
+  repeatWait: number | LaterJSSchedule | CronSchedule;
+  timezone?: string;
+  after: Date;
 }
 
 export interface JobDelayOptions {
@@ -96,6 +167,8 @@ export interface JobProgressOptions {
 
 export interface JobSaveOptions {
   cancelRepeats?: boolean;
+  unique?: boolean;
+  uniqueKey?: string;
 }
 
 export interface JobRefreshOptions {
@@ -145,12 +218,83 @@ export interface GetJobOptions {
   getFailures?: boolean;
 }
 
+export interface GetJobLogOptions {
+  runId?: JobId | null;
+  level?: JobLogLevel | JobLogLevel[];
+  limit?: number;
+  before?: Date;
+  // The `cursor` of the last entry of the previous page
+  cursor?: string;
+}
+
+export interface JobHeartbeat {
+  id: JobId;
+  runId: JobId;
+}
+
+export interface JobStatsOptions {
+  types?: JobType[];
+  // Only average runs that started at or after this time
+  since?: Date;
+}
+
+export interface JobTypeStats {
+  counts: Record<JobStatus, number>;
+  // Milliseconds the oldest ready job has been eligible to run
+  oldestReadyAge: number | null;
+  // Average milliseconds from `after` until getWork() handed the job out
+  avgWaitTime: number | null;
+  // Average milliseconds from getWork() until completion
+  avgRunTime: number | null;
+}
+
+export type JobStats = Record<JobType, JobTypeStats>;
+
+export interface JobDeadLetter {
+  at: Date;
+  root: string;
+}
+
+export interface JobDeadLetterOptions {
+  collection?: Mongo.Collection<JobDocument>;
+  remove?: boolean;
+}
+
+export interface JobLogLimitOptions {
+  spill?: boolean;
+}
+
+export interface JobRedriveOptions {
+  retries?: number;
+  until?: Date;
+}
+
+// Milliseconds to keep finished jobs, by status (since their last update); null keeps them
+export type JobRetentionPeriods = Partial<Record<'completed' | 'failed' | 'cancelled', number | null>>;
+
+export interface JobRetentionPolicy extends JobRetentionPeriods {
+  types?: Record<JobType, JobRetentionPeriods>;
+}
+
+export interface JobRateLimit {
+  limit: number;
+  period: number;
+}
+
 export interface JobQueueOptions {
   concurrency?: number;
   payload?: number;
   pollInterval?: number | false;
   prefetch?: number;
   workTimeout?: number;
+  // ms between lease renewals and cancellation checks of running jobs,
+  // defaults to workTimeout / 3 (off without workTimeout); false disables
+  heartbeatInterval?: number | false;
+  // ms a worker may take before the queue fails its job(s) and frees the slot
+  taskTimeout?: number;
+  // Ask the server to announce new ready jobs, so getWork() runs as soon as there is work.
+  // pollInterval remains as a fallback
+  notify?: boolean;
   callbackStrict?: boolean;
   errorCallback?: (error: Error) => void;
 }
@@ -177,8 +321,15 @@ export type Callback<T = any> = (error?: Error | null, result?: T) => void;
 
 export type DDPApply = (name: string, params: any[], callback?: Callback) => any;
 
+// Calls onWork(type) whenever jobs of one of `types` may have become ready; returns a function that stops watching
+export type WorkWatcher = (root: string, types: JobType[], onWork: (type: JobType) => void) => () => void;
+
 export type WorkerFunction = (job: any, callback: Callback) => void;
-export type AsyncWorkerFunction = (job: any, callback: Callback) => Promise<void>;
+// Without a callback parameter, resolving calls job.done(value) and releases the
+// queue slot. Rejecting calls job.fail(error), unless the worker already finished
+// the job, and always releases the slot. A worker that takes the callback must
+// still call it after resolving
+export type AsyncWorkerFunction = (job: any, callback?: Callback) => Promise<any>;
 
 // Allow/Deny rule functions
 export type AllowDenyFunction = (userId: string | null, method: string, params: any[]) => boolean;
@@ -193,6 +344,32 @@ export interface AllowDenyRules {
 }
 
 // Event message types
+export type JobEventName =
+  | 'job:saved'
+  | 'job:ready'
+  | 'job:running'
+  | 'job:progress'
+  | 'job:completed'
+  | 'job:failed'
+  | 'job:retrying'
+  | 'job:cancelled'
+  | 'job:removed';
+
+export interface JobEvent {
+  event: JobEventName;
+  id: JobId;
+  type: JobType;
+  runId: JobId | null;
+  time: Date;
+  status?: JobStatus;
+  progress?: JobProgress;
+  result?: any;
+  error?: any;
+  retryAt?: Date;
+  repeatId?: JobId;
+  runTime?: number;
+}
+
 export interface EventMessage {
   error: Error | null;
   method: string;
@@ -0,0 +1,47 @@
+////////////////////////////////////////////////////////////////////////////
+//     Copyright (C) 2014-2017 by Vaughn Iverson
+//     job-collection is free software released under the MIT/X11 license.
+//     See included LICENSE file for details.
+////////////////////////////////////////////////////////////////////////////
+
+import type { JobRetryBackoffMethod } from '../types';
+
+function randomBetween(min: number, max: number): number {
+  return Math.floor(min + Math.random() * (max - min));
+}
+
+/**
+ * Milliseconds to wait before retry number `retried` (1 for the first retry)
+ * of a job with retry wait `base`, capped at `maxWait`. The jitter methods
+ * spread out retries of jobs that failed together. `lastWait` is the previous
+ * wait, needed by 'decorrelated-jitter'.
+ */
+export function retryBackoffWait(
+  method: JobRetryBackoffMethod,
+  base: number,
+  retried: number,
+  maxWait = Infinity,
+  lastWait?: number
+): number {
+  const exponential = Math.min(base * Math.pow(2, retried - 1), maxWait);
+  let wait: number;
+
+  switch (method) {
+    case 'linear':
+      wait = base * retried;
+      break;
+    case 'exponential':
+      wait = exponential;
+      break;
+    case 'exponential-jitter':
+      wait = randomBetween(0, exponential);
+      break;
+    case 'decorrelated-jitter':
+      wait = randomBetween(base, Math.min((lastWait ?? base) * 3, maxWait));
+      break;
+    default:
+      wait = base;
+  }
+
+  return Math.min(wait, maxWait);
+}
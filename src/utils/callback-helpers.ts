@@ -160,3 +160,26 @@ export function clearInterval(id: any): void {
   }
 }
 
+/**
+ * Cross-platform setTimeout implementation
+ */
+export function setTimeout(func: (...args: any[]) => void, timeout: number, ...args: any[]): any {
+  if (typeof Meteor !== 'undefined' && Meteor.setTimeout) {
+    return (Meteor.setTimeout as any)(func, timeout, ...args);
+  } else {
+    // Browser / node.js fallback
+    return globalThis.setTimeout(func, timeout, ...args);
+  }
+}
+
+/**
+ * Cross-platform clearTimeout implementation
+ */
+export function clearTimeout(id: any): void {
+  if (typeof Meteor !== 'undefined' && Meteor.clearTimeout) {
+    Meteor.clearTimeout(id);
+  } else {
+    // Browser / node.js fallback
+    globalThis.clearTimeout(id);
+  }
+}
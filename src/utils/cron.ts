@@ -0,0 +1,188 @@
+////////////////////////////////////////////////////////////////////////////
+//     Copyright (C) 2014-2017 by Vaughn Iverson
+//     job-collection is free software released under the MIT/X11 license.
+//     See included LICENSE file for details.
+////////////////////////////////////////////////////////////////////////////
+
+import type { CronSchedule } from '../types';
+import { toWallTime, wallTimeInstants } from './timezone';
+
+/**
+ * Minimal five field cron expression support:
+ *
+ *   minute hour day-of-month month day-of-week
+ *
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`), steps (`*\/15`,
+ * `10-40/10`) and month / weekday names (`jan`, `mon`). Sunday is 0 or 7. As in
+ * Vixie cron, when both day fields are restricted a day matching either runs.
+ * The `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` shorthands are
+ * also understood.
+ */
+
+export interface CronExpression {
+  minutes: boolean[];
+  hours: boolean[];
+  daysOfMonth: boolean[];
+  months: boolean[];
+  daysOfWeek: boolean[];
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Far enough ahead to find the next Feb 29th across a skipped century leap year
+const SEARCH_YEARS = 8;
+
+// More than any DST shift, so the walk below sees both passes through a repeated hour
+const FOLD_MARGIN = 3 * 60 * 60 * 1000;
+
+function parseValue(text: string, min: number, max: number, names?: string[], nameBase = 0): number {
+  const name = names ? names.indexOf(text.toLowerCase()) : -1;
+  const value = name >= 0 ? name + nameBase : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  if (isNaN(value) || value < min || value > max) {
+    throw new Error(`cron: invalid value '${text}', must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameBase = 0): boolean[] {
+  const allowed: boolean[] = new Array(max + 1).fill(false);
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new Error(`cron: invalid field '${field}'`);
+    }
+
+    const step = stepText === undefined ? 1 : parseValue(stepText, 1, max);
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [from, to, more] = range.split('-');
+      if (more !== undefined) {
+        throw new Error(`cron: invalid range '${range}'`);
+      }
+      start = parseValue(from, min, max, names, nameBase);
+      end = to !== undefined ? parseValue(to, min, max, names, nameBase) : stepText !== undefined ? max : start;
+      if (end < start) {
+        throw new Error(`cron: invalid range '${range}'`);
+      }
+    }
+
+    for (let v = start; v <= end; v += step) {
+      allowed[v] = true;
+    }
+  }
+
+  return allowed;
+}
+
+export function parseCron(expression: string): CronExpression {
+  if (typeof expression !== 'string') {
+    throw new Error('cron: expression must be a string');
+  }
+
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`cron: expected 5 fields in '${expression}'`);
+  }
+
+  const daysOfWeek = parseField(fields[4], 0, 7, DAY_NAMES);
+  // 7 is an alias for Sunday
+  daysOfWeek[0] = daysOfWeek[0] || daysOfWeek[7];
+
+  return {
+    minutes: parseField(fields[0], 0, 59),
+    hours: parseField(fields[1], 0, 23),
+    daysOfMonth: parseField(fields[2], 1, 31),
+    months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+export function isValidCron(expression: any): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isCronSchedule(value: any): value is CronSchedule {
+  return value !== null && typeof value === 'object' && typeof value.cron === 'string';
+}
+
+function dayMatches(cron: CronExpression, wall: Date): boolean {
+  const dom = cron.daysOfMonth[wall.getUTCDate()];
+  const dow = cron.daysOfWeek[wall.getUTCDay()];
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * First time matching the expression strictly after `from`, evaluated on the
+ * clock of `timezone` (default UTC). Returns null if nothing matches within
+ * the search horizon, e.g. for '0 0 30 2 *'.
+ */
+export function nextCronTime(expression: string | CronExpression, from: Date, timezone = 'UTC'): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Wall times don't map to instants in order around a DST change, so start a
+  // little early and keep the earliest match after `from`
+  const margin = timezone === 'UTC' ? 0 : FOLD_MARGIN;
+  const everyHour = cron.hours.every(Boolean);
+  const wall = new Date(toWallTime(from, timezone).valueOf() - margin);
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+  const lastYear = wall.getUTCFullYear() + SEARCH_YEARS;
+  let best: Date | null = null;
+  let stopAt = Infinity;
+
+  while (wall.getUTCFullYear() <= lastYear && wall.valueOf() <= stopAt) {
+    if (!cron.months[wall.getUTCMonth() + 1]) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours[wall.getUTCHours()]) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes[wall.getUTCMinutes()]) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+    } else {
+      // A wall time in a repeated hour has an instant in each pass. As in Vixie
+      // cron, only schedules that run every hour use both; the rest run once
+      const instants = wallTimeInstants(wall, timezone);
+      const next = (everyHour ? instants : instants.slice(0, 1)).find(t => t > from);
+      if (next && (!best || next < best)) {
+        best = next;
+        stopAt = wall.valueOf() + margin;
+      }
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+    }
+  }
+
+  return best;
+}
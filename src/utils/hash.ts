@@ -0,0 +1,27 @@
+////////////////////////////////////////////////////////////////////////////
+//     Copyright (C) 2014-2017 by Vaughn Iverson
+//     job-collection is free software released under the MIT/X11 license.
+//     See included LICENSE file for details.
+////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), returned as hex.
+ * Runs identically on client and server without depending on node crypto.
+ */
+export function hashString(str: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
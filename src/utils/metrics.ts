@@ -0,0 +1,59 @@
+////////////////////////////////////////////////////////////////////////////
+//     Copyright (C) 2014-2017 by Vaughn Iverson
+//     job-collection is free software released under the MIT/X11 license.
+//     See included LICENSE file for details.
+////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Minimal Prometheus text exposition helpers, so the server can expose
+ * metrics without depending on a client library.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+// Default buckets in seconds, from 5ms to 10 minutes
+export const durationBuckets = [0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 300, 600];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+export function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+export function metricHeader(name: string, type: 'counter' | 'gauge' | 'histogram', help: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+export class Histogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(private buckets: number[] = durationBuckets) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((le, i) => {
+      if (value <= le) {
+        this.counts[i]++;
+      }
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  render(name: string, labels: MetricLabels): string {
+    let out = '';
+    this.buckets.forEach((le, i) => {
+      out += `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${this.counts[i]}\n`;
+    });
+    out += `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${this.count}\n`;
+    out += `${name}_sum${formatLabels(labels)} ${this.sum}\n`;
+    out += `${name}_count${formatLabels(labels)} ${this.count}\n`;
+    return out;
+  }
+}
@@ -0,0 +1,110 @@
+////////////////////////////////////////////////////////////////////////////
+//     Copyright (C) 2014-2017 by Vaughn Iverson
+//     job-collection is free software released under the MIT/X11 license.
+//     See included LICENSE file for details.
+////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Time zone helpers built on Intl, so schedules can be evaluated in any IANA
+ * zone without a time zone database dependency.
+ *
+ * A "wall time" is a Date whose UTC fields hold the local clock reading in the
+ * zone, which lets calendar arithmetic use the plain Date UTC methods.
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimezone(timezone: any): boolean {
+  if (typeof timezone !== 'string' || timezone.length === 0) {
+    return false;
+  }
+  try {
+    formatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Clock reading in the zone at the given instant
+ */
+export function toWallTime(date: Date, timezone = 'UTC'): Date {
+  if (timezone === 'UTC') {
+    return new Date(date.valueOf());
+  }
+
+  const fields: Record<string, number> = {};
+  for (const part of formatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return new Date(
+    Date.UTC(
+      fields.year,
+      fields.month - 1,
+      fields.day,
+      fields.hour % 24,
+      fields.minute,
+      fields.second,
+      date.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Every instant at which the zone's clock reads the given wall time, earliest
+ * first: two for a wall time that occurs twice (clocks going back), and for
+ * a wall time skipped by clocks going forward, the one instant shifted
+ * forward by the length of the gap.
+ */
+export function wallTimeInstants(wall: Date, timezone = 'UTC'): Date[] {
+  if (timezone === 'UTC') {
+    return [new Date(wall.valueOf())];
+  }
+
+  const target = wall.valueOf();
+  const offsetAt = (t: number) => toWallTime(new Date(t), timezone).valueOf() - t;
+  const before = target - offsetAt(target - DAY);
+  const after = target - offsetAt(target + DAY);
+
+  const matches = [...new Set([before, after])]
+    .filter(t => toWallTime(new Date(t), timezone).valueOf() === target)
+    .sort((a, b) => a - b);
+  if (matches.length > 0) {
+    return matches.map(t => new Date(t));
+  }
+
+  // In a gap, applying the pre-transition offset lands just past it
+  return [new Date(before)];
+}
+
+/**
+ * Instant at which the zone's clock reads the given wall time. A repeated
+ * wall time resolves to its first occurrence, see wallTimeInstants().
+ */
+export function fromWallTime(wall: Date, timezone = 'UTC'): Date {
+  return wallTimeInstants(wall, timezone)[0];
+}
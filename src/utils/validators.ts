@@ -4,6 +4,9 @@
 //     See included LICENSE file for details.
 ////////////////////////////////////////////////////////////////////////////
 
+import { isValidCron } from './cron';
+import { isValidTimezone } from './timezone';
+
 /**
  * Validation helper functions
  */
@@ -53,6 +56,13 @@ export function validIntGTEOne(v: any): boolean {
   return validNumGTEOne(v) && Math.floor(v) === v;
 }
 
+// setTimeout() fires at once for delays over 2^31 - 1 ms (about 24.8 days)
+export const MAX_TIMEOUT = 2147483647;
+
+export function validTimeout(v: any): boolean {
+  return validIntGTEOne(v) && v <= MAX_TIMEOUT;
+}
+
 export function validStatus(v: any): boolean {
   return Match.test(v, String) && ['waiting', 'paused', 'ready', 'running', 'failed', 'cancelled', 'completed'].includes(v);
 }
@@ -61,8 +71,26 @@ export function validLogLevel(v: any): boolean {
   return Match.test(v, String) && ['info', 'success', 'warning', 'danger'].includes(v);
 }
 
+// A getJobLog() page cursor: `<time in ms>:<ordinal among entries of that time>`
+export function validLogCursor(v: any): boolean {
+  return Match.test(v, String) && /^\d+:\d+$/.test(v);
+}
+
+// A built-in method, or the name of a backoff registered on the server with jc.registerBackoff()
 export function validRetryBackoff(v: any): boolean {
-  return Match.test(v, String) && ['constant', 'exponential'].includes(v);
+  return Match.test(v, String) && v.length > 0;
+}
+
+export function validMisfirePolicy(v: any): boolean {
+  return Match.test(v, String) && ['skip', 'runOnce', 'runAll'].includes(v);
+}
+
+export function validCronExpression(v: any): boolean {
+  return Match.test(v, String) && isValidCron(v);
+}
+
+export function validTimezone(v: any): boolean {
+  return Match.test(v, String) && isValidTimezone(v);
 }
 
 export function validId(v: any): boolean {
@@ -0,0 +1,58 @@
+////////////////////////////////////////////////////////////////////////////
+//     Copyright (C) 2014-2017 by Vaughn Iverson
+//     job-collection is free software released under the MIT/X11 license.
+//     See included LICENSE file for details.
+////////////////////////////////////////////////////////////////////////////
+
+import type { JobType, WorkWatcher } from '../types';
+
+/**
+ * Work watchers subscribe to the `<root>_workAvailable` publication, which
+ * holds one document per job type whose `signal` field changes each time a
+ * job of that type becomes ready.
+ */
+
+// Meteor allows one client-side collection per name and connection
+const workCollections = new WeakMap<object, Record<string, Mongo.Collection<any>>>();
+
+function workCollection(connection: any, root: string): Mongo.Collection<any> {
+  const byRoot = workCollections.get(connection) ?? {};
+  workCollections.set(connection, byRoot);
+  byRoot[root] = byRoot[root] ?? new Mongo.Collection(`${root}.workAvailable`, { connection });
+  return byRoot[root];
+}
+
+// For Meteor clients and DDP.connect() connections
+export function meteorWorkWatcher(connection: any): WorkWatcher {
+  return (root: string, types: JobType[], onWork: (type: JobType) => void) => {
+    const handle = workCollection(connection, root)
+      .find({ _id: { $in: types } })
+      .observeChanges({
+        added: (type: JobType) => onWork(type),
+        changed: (type: JobType) => onWork(type)
+      });
+    const sub = connection.subscribe(`${root}_workAvailable`, types);
+    return () => {
+      sub.stop();
+      handle.stop();
+    };
+  };
+}
+
+// For the npm DDP package
+export function ddpWorkWatcher(ddp: any): WorkWatcher {
+  return (root: string, types: JobType[], onWork: (type: JobType) => void) => {
+    const observer = ddp.observe(`${root}.workAvailable`);
+    observer.added = (type: JobType) => {
+      if (types.includes(type)) onWork(type);
+    };
+    observer.changed = (type: JobType) => {
+      if (types.includes(type)) onWork(type);
+    };
+    const subId = ddp.subscribe(`${root}_workAvailable`, [types]);
+    return () => {
+      ddp.unsubscribe(subId);
+      observer.stop();
+    };
+  };
+}